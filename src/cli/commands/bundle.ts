@@ -0,0 +1,55 @@
+import { writeFile } from 'fs/promises';
+import { SpecBundler } from '../../utils/bundler.js';
+import { isJsonFile, serializeSpec } from '../../utils/loader.js';
+import { logger } from '../../utils/logger.js';
+import { ExitCodes } from '../../utils/types.js';
+
+interface BundleOptions {
+  output?: string;
+  format?: string;
+  dereference?: boolean;
+}
+
+export async function bundleCommand(entryPath: string, options: BundleOptions): Promise<void> {
+  const format = options.format ?? (options.output && isJsonFile(options.output) ? 'json' : 'yaml');
+  if (format !== 'yaml' && format !== 'json') {
+    logger.error(`Unknown format "${format}" - expected yaml or json`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  try {
+    const bundler = new SpecBundler();
+    const { document, cycles } = await bundler.bundle(entryPath, {
+      dereference: options.dereference,
+    });
+
+    const content = serializeSpec(document, format);
+
+    if (options.output) {
+      await writeFile(options.output, content, 'utf-8');
+      logger.success(`Bundled ${entryPath} into ${options.output}`);
+    } else {
+      process.stdout.write(content);
+    }
+
+    if (cycles.length > 0) {
+      // Written to stderr so piped output stays a valid document
+      const note = options.dereference ? ' (left as $ref)' : '';
+      console.error(`Circular references found${note}:`);
+      cycles.forEach(cycle => console.error(`  ${cycle}`));
+    }
+
+    process.exit(ExitCodes.SUCCESS);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('ENOENT') || error.message.includes('not found')) {
+        logger.error(error.message);
+        process.exit(ExitCodes.FILE_NOT_FOUND);
+      }
+      logger.error(`Error: ${error.message}`);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(ExitCodes.VALIDATION_FAILED);
+  }
+}
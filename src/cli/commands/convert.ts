@@ -0,0 +1,109 @@
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import type { OpenAPIV2 } from 'openapi-types';
+import { SpecBundler } from '../../utils/bundler.js';
+import { SpecConverter, isConvertTarget } from '../../utils/converter.js';
+import { isJsonFile, serializeSpec } from '../../utils/loader.js';
+import { getSpecVersion } from '../../utils/openapi.js';
+import { loadConfig } from '../../utils/config.js';
+import { logger } from '../../utils/logger.js';
+import { loadCustomRules } from '../../rules/custom.js';
+import { SpecValidator } from '../../validators/spec-validator.js';
+import { ExitCodes, type ValidatorConfig } from '../../utils/types.js';
+
+interface ConvertOptions {
+  to?: string;
+  output?: string;
+  config?: string;
+}
+
+export async function convertCommand(
+  specArg: string | undefined,
+  options: ConvertOptions
+): Promise<void> {
+  let config: ValidatorConfig;
+  try {
+    ({ config } = await loadConfig(options.config));
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const specPath = specArg ?? config.spec;
+  if (!specPath) {
+    logger.error('No spec path given - pass <spec> or set "spec" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const target = options.to ?? '3.0';
+  if (!isConvertTarget(target)) {
+    logger.error(`Unknown target version "${target}" - expected 3.0 or 3.1`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  // Config rules may name custom rules, so those are loaded too
+  let validator: SpecValidator;
+  try {
+    const customRules = await loadCustomRules(config.customRules ?? []);
+    validator = new SpecValidator({ rules: config.rules, customRules });
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  try {
+    // Specs split over several files are converted as one document
+    const { document } = await new SpecBundler().bundle(specPath);
+    if (getSpecVersion(document) !== '2.0') {
+      logger.error(`${specPath} is not a Swagger 2.0 document`);
+      process.exit(ExitCodes.INVALID_COMMAND);
+    }
+
+    const converted = new SpecConverter().convert(
+      document as unknown as OpenAPIV2.Document,
+      target
+    );
+
+    // Nothing is written unless the result is a valid spec
+    const result = await validator.validate(converted, resolve(options.output ?? specPath));
+
+    if (!result.valid) {
+      logger.error('Converted spec is invalid, nothing was written:');
+      for (const error of result.errors ?? []) {
+        const where = error.pointer ?? error.path;
+        logger.errorDetail(`✗ ${error.message}${where ? ` (${where})` : ''}`);
+      }
+      process.exit(ExitCodes.VALIDATION_FAILED);
+    }
+
+    const content = serializeSpec(
+      converted,
+      options.output && isJsonFile(options.output) ? 'json' : 'yaml'
+    );
+    const warnings = result.warnings?.length ?? 0;
+    const note = warnings > 0 ? ` with ${warnings} warning(s) - run validate-spec for details` : '';
+
+    if (options.output) {
+      await writeFile(options.output, content, 'utf-8');
+      logger.success(`Converted ${specPath} to OpenAPI ${converted.openapi}: ${options.output}`);
+      if (note) logger.warn(`Valid${note}`);
+    } else {
+      process.stdout.write(content);
+      // Written to stderr so piped output stays a valid document
+      if (note) console.error(`Valid${note}`);
+    }
+
+    process.exit(ExitCodes.SUCCESS);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('ENOENT') || error.message.includes('not found')) {
+        logger.error(`File not found: ${specPath}`);
+        process.exit(ExitCodes.FILE_NOT_FOUND);
+      }
+      logger.error(`Error: ${error.message}`);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(ExitCodes.VALIDATION_FAILED);
+  }
+}
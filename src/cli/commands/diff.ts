@@ -0,0 +1,97 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import type { OpenAPI } from 'openapi-types';
+import { SpecDiffer } from '../../validators/spec-differ.js';
+import { loadSpec } from '../../utils/loader.js';
+import { logger } from '../../utils/logger.js';
+import { writeReport } from '../../reporters/index.js';
+import { ExitCodes, type SpecChange } from '../../utils/types.js';
+
+interface DiffOptions {
+  format?: string;
+  output?: string;
+}
+
+function formatChange(change: SpecChange): void {
+  switch (change.severity) {
+    case 'breaking':
+      logger.error(`✗ BREAKING  ${change.message}`);
+      logger.errorDetail(`  └─ ${change.path} (${change.type})`);
+      break;
+    case 'non-breaking':
+      logger.success(`✓ SAFE      ${change.message}`);
+      logger.dim(`    └─ ${change.path} (${change.type})`);
+      break;
+    default:
+      logger.info(`ℹ INFO      ${change.message}`);
+      logger.dim(`    └─ ${change.path} (${change.type})`);
+  }
+}
+
+export async function diffCommand(
+  oldPath: string,
+  newPath: string,
+  options: DiffOptions
+): Promise<void> {
+  const format = options.format ?? 'pretty';
+  if (format !== 'pretty' && format !== 'json') {
+    logger.error(`Unknown format "${format}" - expected pretty or json`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  if (format === 'pretty') {
+    logger.info(`Comparing ${oldPath} -> ${newPath}\n`);
+  }
+
+  let currentPath = oldPath;
+  try {
+    // Load both spec files, then resolve their $ref pointers relative to them
+    const oldSpec = (await loadSpec(oldPath)) as OpenAPI.Document;
+    currentPath = newPath;
+    const newSpec = (await loadSpec(newPath)) as OpenAPI.Document;
+
+    currentPath = oldPath;
+    const oldApi = await SwaggerParser.dereference(oldPath, oldSpec, {});
+    currentPath = newPath;
+    const newApi = await SwaggerParser.dereference(newPath, newSpec, {});
+
+    const result = new SpecDiffer().diff(oldApi, newApi);
+    const exitCode = result.breaking > 0 ? ExitCodes.VALIDATION_FAILED : ExitCodes.SUCCESS;
+
+    if (format === 'json') {
+      await writeReport(JSON.stringify({ oldPath, newPath, ...result }, null, 2), options.output);
+      process.exit(exitCode);
+    }
+
+    if (result.changes.length === 0) {
+      logger.success('No changes detected');
+      process.exit(ExitCodes.SUCCESS);
+    }
+
+    // Breaking changes first, then non-breaking, then informational
+    const order = { breaking: 0, 'non-breaking': 1, info: 2 };
+    const sorted = [...result.changes].sort((a, b) => order[a.severity] - order[b.severity]);
+    sorted.forEach(formatChange);
+
+    console.log(''); // Empty line for spacing
+
+    const summary = `Changes: ${result.breaking} breaking, ${result.nonBreaking} non-breaking, ${result.info} informational`;
+    if (result.breaking > 0) {
+      logger.error(summary);
+    } else {
+      logger.success(summary);
+    }
+
+    process.exit(exitCode);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('ENOENT') || error.message.includes('not found')) {
+        logger.error(`File not found: ${currentPath}`);
+        process.exit(ExitCodes.FILE_NOT_FOUND);
+      }
+      logger.error(`Error in ${currentPath}: ${error.message}`);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(ExitCodes.VALIDATION_FAILED);
+  }
+}
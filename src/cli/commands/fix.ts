@@ -0,0 +1,83 @@
+import { readFile, writeFile } from 'fs/promises';
+import { relative } from 'path';
+import { SpecFixer } from '../../utils/fixer.js';
+import { isJsonFile } from '../../utils/loader.js';
+import { unifiedDiff } from '../../utils/line-diff.js';
+import { loadConfig } from '../../utils/config.js';
+import { logger } from '../../utils/logger.js';
+import { ExitCodes, type ValidatorConfig } from '../../utils/types.js';
+
+interface FixOptions {
+  config?: string;
+  dryRun?: boolean;
+}
+
+function printDiff(diff: string): void {
+  for (const line of diff.trimEnd().split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      logger.bold(line);
+    } else if (line.startsWith('@@')) {
+      logger.info(line);
+    } else if (line.startsWith('+')) {
+      logger.success(line);
+    } else if (line.startsWith('-')) {
+      logger.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export async function fixCommand(specArg: string | undefined, options: FixOptions): Promise<void> {
+  let config: ValidatorConfig;
+  try {
+    ({ config } = await loadConfig(options.config));
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const specPath = specArg ?? config.spec;
+  if (!specPath) {
+    logger.error('No spec path given - pass <path> or set "spec" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  try {
+    const content = await readFile(specPath, 'utf-8');
+    // Rules switched off in the config are not fixed either
+    const fixer = new SpecFixer({ rules: config.rules });
+    const result = fixer.fix(content, isJsonFile(specPath) ? 'json' : 'yaml');
+
+    if (result.fixes.length === 0) {
+      logger.success('Nothing to fix');
+      process.exit(ExitCodes.SUCCESS);
+    }
+
+    if (options.dryRun) {
+      printDiff(unifiedDiff(content, result.content, relative(process.cwd(), specPath)));
+      logger.newLine();
+    } else {
+      await writeFile(specPath, result.content, 'utf-8');
+    }
+
+    for (const fix of result.fixes) {
+      logger.success(`✓ ${fix.message}`);
+      logger.dim(`    └─ ${fix.pointer} (${fix.rule})`);
+    }
+
+    logger.newLine();
+    const summary = `${result.fixes.length} fix(es)`;
+    logger.info(
+      options.dryRun ? `Would apply ${summary} to ${specPath}` : `Applied ${summary} to ${specPath}`
+    );
+    process.exit(ExitCodes.SUCCESS);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      logger.error(`File not found: ${specPath}`);
+      process.exit(ExitCodes.FILE_NOT_FOUND);
+    }
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.VALIDATION_FAILED);
+  }
+}
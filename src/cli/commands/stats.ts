@@ -0,0 +1,158 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { dirname, relative, resolve } from 'path';
+import { SpecAnalyzer } from '../../utils/stats.js';
+import { loadSourceMap, loadSpec } from '../../utils/loader.js';
+import { loadConfig } from '../../utils/config.js';
+import { logger } from '../../utils/logger.js';
+import { writeReport } from '../../reporters/index.js';
+import { ExitCodes, type SpecStats, type ValidatorConfig } from '../../utils/types.js';
+
+interface StatsOptions {
+  config?: string;
+  format?: string;
+  output?: string;
+}
+
+// Entries shown in the pretty output's "largest" and "most schemas" lists
+const TOP_ENTRIES = 5;
+
+function formatCoverage(coverage: number, count: number, total: number): string {
+  return `${coverage}% (${count}/${total} operations)`;
+}
+
+function printList(title: string, items: string[]): void {
+  if (items.length === 0) return;
+  logger.bold(`${title} (${items.length}):`);
+  items.forEach(item => logger.dim(`  ${item}`));
+}
+
+function printStats(stats: SpecStats): void {
+  const { info, operations, security, schemas, schemaUsage, documentation } = stats;
+
+  logger.info('Specification Details:');
+  logger.detail('Title', info.title);
+  logger.detail('Version', info.version);
+  if (info.openApiVersion) {
+    logger.detail('OpenAPI Version', info.openApiVersion);
+  }
+  logger.detail('Paths', String(info.pathCount ?? 0));
+  logger.detail('External files', String(stats.externalFiles.length));
+  logger.newLine();
+
+  logger.info(`Operations (${operations.total}):`);
+  if (operations.total > 0) {
+    logger.table(operations.byMethod);
+    logger.bold('By tag:');
+    logger.table(operations.byTag);
+  }
+  printList('Deprecated', operations.deprecated);
+  logger.newLine();
+
+  logger.info('Security:');
+  logger.detail('Coverage', formatCoverage(security.coverage, security.secured, operations.total));
+  if (Object.keys(security.schemes).length > 0) {
+    logger.bold('Operations per scheme:');
+    logger.table(security.schemes);
+  }
+  printList('Unsecured', security.unsecured);
+  logger.newLine();
+
+  logger.info(`Schemas (${schemas.total}):`);
+  if (schemas.total > 0) {
+    logger.detail('Max depth', String(schemas.maxDepth));
+    logger.detail('Average depth', String(schemas.averageDepth));
+    logger.detail('Average size', `${schemas.averageSize} properties`);
+    logger.bold('Largest:');
+    logger.table(
+      Object.fromEntries(
+        schemas.metrics
+          .slice(0, TOP_ENTRIES)
+          .map(({ name, depth, size }) => [name, `${size} properties, depth ${depth}`])
+      )
+    );
+  }
+  logger.newLine();
+
+  logger.info('Schemas per operation:');
+  logger.detail('Average', String(schemaUsage.average));
+  logger.detail('Max', String(schemaUsage.max));
+  const heaviest = [...schemaUsage.operations]
+    .filter(usage => usage.schemas.length > 0)
+    .sort((a, b) => b.schemas.length - a.schemas.length)
+    .slice(0, TOP_ENTRIES);
+  if (heaviest.length > 0) {
+    logger.bold('Most schemas:');
+    logger.table(Object.fromEntries(heaviest.map(u => [u.operation, u.schemas.join(', ')])));
+  }
+  logger.newLine();
+
+  logger.info('Documentation:');
+  logger.detail(
+    'Descriptions',
+    formatCoverage(documentation.descriptionCoverage, documentation.described, operations.total)
+  );
+  logger.detail(
+    'Examples',
+    formatCoverage(documentation.exampleCoverage, documentation.withExamples, operations.total)
+  );
+}
+
+export async function statsCommand(
+  specArg: string | undefined,
+  options: StatsOptions
+): Promise<void> {
+  let config: ValidatorConfig;
+  try {
+    ({ config } = await loadConfig(options.config));
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const specPath = specArg ?? config.spec;
+  if (!specPath) {
+    logger.error('No spec path given - pass <path> or set "spec" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const format = options.format ?? 'pretty';
+  if (format !== 'pretty' && format !== 'json') {
+    logger.error(`Unknown format "${format}" - expected pretty or json`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  try {
+    // Surface syntax errors before resolving $ref pointers
+    await loadSpec(specPath);
+    const api = await SwaggerParser.dereference(specPath);
+
+    // External files are listed relative to the spec's directory
+    const { fileNames } = await loadSourceMap(specPath);
+    const entry = resolve(specPath);
+    const externalFiles = fileNames
+      .filter(file => file !== entry)
+      .map(file => relative(dirname(entry), file));
+
+    const stats = new SpecAnalyzer().analyze(api, externalFiles);
+
+    if (format === 'json') {
+      await writeReport(JSON.stringify({ specPath, ...stats }, null, 2), options.output);
+      process.exit(ExitCodes.SUCCESS);
+    }
+
+    logger.info(`Statistics for ${specPath}\n`);
+    printStats(stats);
+    process.exit(ExitCodes.SUCCESS);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('ENOENT') || error.message.includes('not found')) {
+        logger.error(`File not found: ${specPath}`);
+        process.exit(ExitCodes.FILE_NOT_FOUND);
+      }
+      logger.error(`Error: ${error.message}`);
+    } else {
+      logger.error('An unexpected error occurred');
+    }
+    process.exit(ExitCodes.VALIDATION_FAILED);
+  }
+}
@@ -1,13 +1,33 @@
 import { ApiValidator } from '../../validators/api-validator.js';
-import { loadSpec } from '../../utils/loader.js';
+import { isStdin, loadSourceMap, loadSpecSource, resolveSpecPath } from '../../utils/loader.js';
 import { logger } from '../../utils/logger.js';
-import { ExitCodes } from '../../utils/types.js';
+import { loadScenario } from '../../utils/scenario.js';
+import { loadConfig } from '../../utils/config.js';
+import { formatApiReport, isReportFormat, writeReport } from '../../reporters/index.js';
+import { isSetupErrorResult, summarizeApiResults } from '../../reporters/summary.js';
+import {
+  ExitCodes,
+  type ApiValidationResult,
+  type Scenario,
+  type ValidatorConfig,
+} from '../../utils/types.js';
 
 interface ValidateApiOptions {
-  url: string;
+  url?: string;
   endpoints?: string;
   header?: string[];
-  timeout: string;
+  timeout?: string;
+  concurrency?: string;
+  serial?: string;
+  retries?: string;
+  retryDelay?: string;
+  maxRetryWait?: string;
+  rate?: string;
+  scenario?: string;
+  config?: string;
+  format?: string;
+  output?: string;
+  basePath?: string;
 }
 
 function parseHeaders(headerArgs?: string[]): Record<string, string> {
@@ -27,38 +47,179 @@ function parseHeaders(headerArgs?: string[]): Record<string, string> {
   return headers;
 }
 
+function describeResult(result: ApiValidationResult): string {
+  const step = result.step ? `[${result.step}] ` : '';
+  // Scenario steps naming an unknown operation have no method
+  const method = result.method ? `${result.method.toUpperCase()} ` : '';
+  return `${step}${method}${result.path}`;
+}
+
+/**
+ * Read a numeric flag, falling back to the config value. Invalid values
+ * end the command.
+ */
+function parseNumberOption<T extends number | undefined>(
+  name: string,
+  arg: string | undefined,
+  fallback: T,
+  isValid: (value: number) => boolean,
+  expected: string
+): number | T {
+  const value = arg !== undefined ? Number(arg) : fallback;
+  if (value !== undefined && !isValid(value)) {
+    logger.error(`Invalid ${name} "${arg ?? value}" - expected ${expected}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+  return value;
+}
+
 export async function validateApiCommand(
-  specPath: string,
+  specArg: string | undefined,
   options: ValidateApiOptions
 ): Promise<void> {
-  const { url, endpoints, header, timeout } = options;
+  const { endpoints, header, timeout, serial } = options;
+
+  let config: ValidatorConfig;
+  try {
+    ({ config } = await loadConfig(options.config));
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  // CLI arguments take precedence over config file values
+  const specPath = specArg ?? config.spec;
+  const url = options.url ?? config.baseUrl;
+
+  if (!specPath) {
+    logger.error('No spec path given - pass <spec> or set "spec" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+  if (!url) {
+    logger.error('No base URL given - pass --url or set "baseUrl" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
 
-  logger.info(`Validating API at ${url} against spec: ${specPath}\n`);
+  const concurrency = parseNumberOption(
+    'concurrency',
+    options.concurrency,
+    config.concurrency ?? 1,
+    value => Number.isInteger(value) && value >= 1,
+    'a positive integer'
+  );
+  const retries = parseNumberOption(
+    'retries',
+    options.retries,
+    config.retries ?? 0,
+    value => Number.isInteger(value) && value >= 0,
+    'a non-negative integer'
+  );
+  const retryDelay = parseNumberOption(
+    'retry delay',
+    options.retryDelay,
+    config.retryDelay ?? 500,
+    value => value >= 0,
+    'a non-negative number of milliseconds'
+  );
+  const maxRetryWait = parseNumberOption(
+    'max retry wait',
+    options.maxRetryWait,
+    config.maxRetryWait ?? 30_000,
+    value => value >= 0,
+    'a non-negative number of milliseconds'
+  );
+  const rate = parseNumberOption(
+    'rate',
+    options.rate,
+    config.rate,
+    value => value > 0,
+    'a positive number of requests per second'
+  );
+
+  let scenario: Scenario | undefined;
+  if (options.scenario) {
+    if (endpoints) {
+      logger.error('--scenario cannot be combined with --endpoints');
+      process.exit(ExitCodes.INVALID_COMMAND);
+    }
+    try {
+      scenario = await loadScenario(options.scenario);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error: ${message}`);
+      process.exit(
+        message.startsWith('Scenario file not found')
+          ? ExitCodes.FILE_NOT_FOUND
+          : ExitCodes.INVALID_COMMAND
+      );
+    }
+  }
+
+  const format = options.format ?? 'pretty';
+  if (!isReportFormat(format)) {
+    logger.error(`Unknown format "${format}" - expected pretty, json, junit or sarif`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  if (format === 'pretty') {
+    const specName = isStdin(specPath) ? 'stdin' : specPath;
+    logger.info(`Validating API at ${url} against spec: ${specName}\n`);
+    if (scenario) {
+      logger.info(`Running scenario: ${scenario.name ?? options.scenario}\n`);
+    }
+  }
 
   try {
-    // Load the spec file
-    const rawSpec = await loadSpec(specPath);
+    // Load the spec file, or read it from stdin for `-`
+    const { content, document } = await loadSpecSource(specPath);
+    const documentPath = resolveSpecPath(specPath, options.basePath);
 
     // Parse options
     const endpointList = endpoints
       ? endpoints.split(',').map(e => e.trim())
-      : undefined;
-    const headers = parseHeaders(header);
-    const timeoutMs = parseInt(timeout, 10);
+      : config.endpoints;
+    const headers = { ...config.headers, ...parseHeaders(header) };
+    const timeoutMs = timeout !== undefined ? parseInt(timeout, 10) : config.timeout ?? 5000;
+    const serialMethods = serial ? serial.split(',').map(m => m.trim()) : config.serial;
 
     // Create validator and validate
     const validator = new ApiValidator({
       baseUrl: url,
       headers,
       timeout: timeoutMs,
+      concurrency,
+      serial: serialMethods,
+      retries,
+      retryDelay,
+      maxRetryWait,
+      rate,
+      auth: config.auth,
     });
 
-    const results = await validator.validate(rawSpec, specPath, endpointList);
+    // A scenario replaces the sweep over every operation
+    const results = scenario
+      ? await validator.runScenario(document, documentPath, scenario)
+      : await validator.validate(document, documentPath, endpointList);
+
+    if (format !== 'pretty') {
+      const sourceMap =
+        format === 'sarif' ? await loadSourceMap(documentPath, content) : undefined;
+      const report = formatApiReport(results, format, documentPath, url, pointer =>
+        sourceMap?.locate(pointer)
+      );
+      await writeReport(report, options.output);
+
+      const { failed, setupErrors } = summarizeApiResults(results);
+      process.exit(
+        failed + setupErrors === 0 ? ExitCodes.SUCCESS : ExitCodes.VALIDATION_FAILED
+      );
+    }
 
     // Display results
     let passedCount = 0;
     let failedCount = 0;
     let skippedCount = 0;
+    let setupErrorCount = 0;
 
     console.log(''); // Empty line for spacing
 
@@ -69,18 +230,25 @@ export async function validateApiCommand(
       if (isSkipped) {
         skippedCount++;
         logger.dim(
-          `○ ${result.method.toUpperCase()} ${result.path} - ${result.error}`
+          `○ ${describeResult(result)} - ${result.error}`
         );
+      } else if (isSetupErrorResult(result)) {
+        // The request was never sent, so this says nothing about the API
+        setupErrorCount++;
+        logger.warn(`! ${describeResult(result)} - ${result.error}`);
+        result.details?.forEach(detail => logger.dim(`  └─ ${detail}`));
       } else if (result.valid) {
         passedCount++;
         logger.success(
-          `✓ ${result.method.toUpperCase()} ${result.path} - ${result.statusCode} OK (${result.responseTime}ms)`
+          `✓ ${describeResult(result)} - ${result.statusCode} OK (${result.responseTime}ms)`
         );
+        // Retried attempts of a request that eventually passed
+        result.details?.forEach(detail => logger.dim(`  └─ ${detail}`));
       } else {
         failedCount++;
         const statusInfo = result.statusCode ? ` [${result.statusCode}]` : '';
         logger.error(
-          `✗ ${result.method.toUpperCase()} ${result.path}${statusInfo} - ${result.error || 'Validation failed'}`
+          `✗ ${describeResult(result)}${statusInfo} - ${result.error || 'Validation failed'}`
         );
         if (result.details && result.details.length > 0) {
           result.details.forEach(detail => {
@@ -97,9 +265,12 @@ export async function validateApiCommand(
     if (skippedCount > 0) {
       summaryParts.push(`${skippedCount} skipped`);
     }
+    if (setupErrorCount > 0) {
+      summaryParts.push(`${setupErrorCount} test setup error(s)`);
+    }
     const summary = `Results: ${summaryParts.join(', ')}`;
 
-    if (failedCount === 0) {
+    if (failedCount === 0 && setupErrorCount === 0) {
       logger.success(summary);
       process.exit(ExitCodes.SUCCESS);
     } else {
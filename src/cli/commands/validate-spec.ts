@@ -1,17 +1,124 @@
 import { SpecValidator } from '../../validators/spec-validator.js';
-import { loadSpec } from '../../utils/loader.js';
+import { writeFile } from 'fs/promises';
+import { relative, resolve } from 'path';
+import {
+  isJsonFile,
+  isStdin,
+  loadSourceMap,
+  loadSpecSource,
+  resolveSpecPath,
+  serializeSpec,
+} from '../../utils/loader.js';
 import { logger } from '../../utils/logger.js';
-import { ExitCodes, type ValidationError } from '../../utils/types.js';
+import { loadCustomRules } from '../../rules/custom.js';
+import { isRuleSeverity } from '../../rules/registry.js';
+import { loadConfig } from '../../utils/config.js';
+import { formatLocation } from '../../utils/source-map.js';
+import { findUnusedComponents, pruneComponents } from '../../utils/components.js';
+import { diffResults, FileWatcher, type ReportedIssue } from '../../utils/watcher.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { expandSpecPaths, isOpenApiFile } from '../../utils/spec-files.js';
+import {
+  formatSpecReport,
+  formatSpecReports,
+  isReportFormat,
+  writeReport,
+} from '../../reporters/index.js';
+import { summarizeSpecResults } from '../../reporters/summary.js';
+import {
+  ExitCodes,
+  type ExitCode,
+  type ReportFormat,
+  type SpecFileResult,
+  type RelatedLocation,
+  type RuleSettings,
+  type ValidatorConfig,
+  type ValidationError,
+  type ValidationResult,
+  type ValidationWarning,
+} from '../../utils/types.js';
+
+// Specs validated at the same time when several are given
+const SPEC_CONCURRENCY = 4;
 
 interface ValidateSpecOptions {
-  strict: boolean;
+  strict?: boolean;
+  config?: string;
+  rule?: string[];
+  customRules?: string[];
+  format?: string;
+  output?: string;
+  prune?: string;
+  watch?: boolean;
+  basePath?: string;
+}
+
+function parseRuleSettings(ruleArgs?: string[]): RuleSettings {
+  const settings: RuleSettings = {};
+
+  if (!ruleArgs) return settings;
+
+  for (const arg of ruleArgs) {
+    const equalsIndex = arg.indexOf('=');
+    const id = arg.substring(0, equalsIndex).trim();
+    const severity = arg.substring(equalsIndex + 1).trim();
+
+    if (equalsIndex <= 0 || !isRuleSeverity(severity)) {
+      throw new Error(`Invalid rule setting "${arg}" - expected <rule-id>=off|warn|error`);
+    }
+    settings[id] = severity;
+  }
+
+  return settings;
+}
+
+/**
+ * Write the spec without its unused components, returning how many were removed
+ */
+async function writePrunedSpec(
+  specPath: string,
+  outputPath: string,
+  content?: string
+): Promise<number> {
+  const sourceMap = await loadSourceMap(specPath, content);
+  const unused = findUnusedComponents(sourceMap.document, sourceMap.refsIntoEntry());
+  const pruned = pruneComponents(sourceMap.document, unused);
+
+  await writeFile(outputPath, serializeSpec(pruned, isJsonFile(outputPath) ? 'json' : 'yaml'), 'utf-8');
+  return unused.length;
+}
+
+function formatRelated(related: RelatedLocation): string {
+  return related.location ? formatLocation(related.location, process.cwd()) : related.pointer;
+}
+
+function formatWarning(warning: ValidationWarning, index: number): void {
+  const ruleLabel = warning.rule ? ` (${warning.rule})` : '';
+  logger.warn(`  ${index + 1}. ${warning.message}${ruleLabel}`);
+
+  if (warning.location) {
+    logger.warn(`     at ${formatLocation(warning.location, process.cwd())}`);
+  }
+  for (const related of warning.related ?? []) {
+    logger.warn(`     and ${formatRelated(related)}`);
+  }
 }
 
 function formatError(error: ValidationError, index: number): void {
   const prefix = `${index + 1}.`;
   const typeLabel = getErrorTypeLabel(error.type);
 
-  logger.errorDetail(`${prefix} [${typeLabel}] ${error.message}`);
+  const ruleLabel = error.rule ? ` (${error.rule})` : '';
+
+  logger.errorDetail(`${prefix} [${typeLabel}] ${error.message}${ruleLabel}`);
+
+  if (error.location) {
+    logger.errorDetail(`   At: ${formatLocation(error.location, process.cwd())}`);
+  }
+
+  for (const related of error.related ?? []) {
+    logger.errorDetail(`   Also: ${formatRelated(related)}`);
+  }
 
   if (error.path) {
     logger.errorDetail(`   Path: ${error.path}`);
@@ -36,77 +143,269 @@ function getErrorTypeLabel(type: ValidationError['type']): string {
       return 'VALIDATION';
     case 'warning-as-error':
       return 'STRICT';
+    case 'rule-violation':
+      return 'RULE';
     default:
       return 'ERROR';
   }
 }
 
-export async function validateSpecCommand(
-  specPath: string,
-  options: ValidateSpecOptions
-): Promise<void> {
-  logger.info(`Validating OpenAPI specification: ${specPath}\n`);
+function printResult(result: ValidationResult, showDetails = true): void {
+  if (result.valid) {
+    logger.success('OpenAPI specification is valid!\n');
 
-  try {
-    // Load the spec file
-    const rawSpec = await loadSpec(specPath);
-
-    // Create validator and validate
-    const validator = new SpecValidator(options.strict);
-    const result = await validator.validate(rawSpec, specPath);
-
-    if (result.valid) {
-      logger.success('OpenAPI specification is valid!\n');
-
-      if (result.info) {
-        logger.info('Specification Details:');
-        logger.detail('Title', result.info.title);
-        logger.detail('Version', result.info.version);
-        if (result.info.openApiVersion) {
-          logger.detail('OpenAPI Version', result.info.openApiVersion);
-        }
-        if (result.info.pathCount !== undefined) {
-          logger.detail('Paths', result.info.pathCount.toString());
-        }
-        if (result.info.schemaCount !== undefined) {
-          logger.detail('Schemas', result.info.schemaCount.toString());
-        }
+    if (result.info && showDetails) {
+      logger.info('Specification Details:');
+      logger.detail('Title', result.info.title);
+      logger.detail('Version', result.info.version);
+      if (result.info.openApiVersion) {
+        logger.detail('OpenAPI Version', result.info.openApiVersion);
       }
+      if (result.info.pathCount !== undefined) {
+        logger.detail('Paths', result.info.pathCount.toString());
+      }
+      if (result.info.schemaCount !== undefined) {
+        logger.detail('Schemas', result.info.schemaCount.toString());
+      }
+    }
+  } else {
+    logger.error('OpenAPI specification is invalid!\n');
+
+    if (result.errors && result.errors.length > 0) {
+      // Group errors by type for better readability
+      const errorsByType = groupErrorsByType(result.errors);
 
-      if (result.warnings && result.warnings.length > 0) {
-        logger.warn(`\nWarnings (${result.warnings.length}):`);
-        result.warnings.forEach((warning, index) => {
-          logger.warn(`  ${index + 1}. ${warning}`);
-        });
+      logger.error(`Found ${result.errors.length} error(s):\n`);
+
+      let errorIndex = 0;
+      for (const [type, errors] of Object.entries(errorsByType)) {
+        for (const error of errors) {
+          formatError(error, errorIndex++);
+        }
       }
+    }
+  }
+
+  if (result.warnings && result.warnings.length > 0) {
+    logger.warn(`\nWarnings (${result.warnings.length}):`);
+    result.warnings.forEach(formatWarning);
+  }
+}
+
+/**
+ * Validate one of several spec files, turning load failures into results
+ * so one broken file does not stop the others
+ */
+async function validateFile(
+  specPath: string,
+  validator: SpecValidator
+): Promise<SpecFileResult & { exitCode: ExitCode }> {
+  try {
+    if (!(await isOpenApiFile(specPath))) {
+      return {
+        specPath,
+        result: { valid: true },
+        skipped: 'Not an OpenAPI document',
+        exitCode: ExitCodes.SUCCESS,
+      };
+    }
+
+    const { content, document } = await loadSpecSource(specPath);
+    const result = await validator.validate(document, specPath, content);
+    return {
+      specPath,
+      result,
+      exitCode: result.valid ? ExitCodes.SUCCESS : ExitCodes.VALIDATION_FAILED,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const missing = message.includes('ENOENT') || message.includes('not found');
+    return {
+      specPath,
+      result: { valid: false, errors: [{ type: missing ? 'unknown' : 'syntax-error', message }] },
+      exitCode: missing ? ExitCodes.FILE_NOT_FOUND : ExitCodes.VALIDATION_FAILED,
+    };
+  }
+}
+
+function printSummary(files: SpecFileResult[]): void {
+  const rows = files.map(({ specPath, result, skipped }) => ({
+    file: relative(process.cwd(), specPath) || specPath,
+    status: skipped ? 'skipped' : result.valid ? 'valid' : 'invalid',
+    errors: skipped ? '-' : String(result.errors?.length ?? 0),
+    warnings: skipped ? '-' : String(result.warnings?.length ?? 0),
+  }));
 
-      process.exit(ExitCodes.SUCCESS);
+  const width = Math.max('File'.length, ...rows.map(row => row.file.length));
+  const formatRow = (file: string, status: string, errors: string, warnings: string): string =>
+    `  ${file.padEnd(width)}  ${status.padEnd(7)}  ${errors.padStart(6)}  ${warnings.padStart(8)}`;
+
+  logger.bold('Summary:');
+  logger.bold(formatRow('File', 'Result', 'Errors', 'Warnings'));
+  for (const row of rows) {
+    const line = formatRow(row.file, row.status, row.errors, row.warnings);
+    if (row.status === 'valid') {
+      logger.success(line);
+    } else if (row.status === 'invalid') {
+      logger.error(line);
     } else {
-      logger.error('OpenAPI specification is invalid!\n');
+      logger.dim(line);
+    }
+  }
+
+  const summary = summarizeSpecResults(files);
+  const totals =
+    `${files.length} file(s): ${summary.valid} valid, ` +
+    `${summary.invalid} invalid, ${summary.skipped} skipped`;
+  logger.newLine();
+  if (summary.invalid > 0) {
+    logger.error(totals);
+  } else {
+    logger.success(totals);
+  }
+}
 
-      if (result.errors && result.errors.length > 0) {
-        // Group errors by type for better readability
-        const errorsByType = groupErrorsByType(result.errors);
+/**
+ * Validate several spec files concurrently and report them together.
+ * The exit code is the worst of the individual results.
+ */
+async function validateSpecFiles(
+  specPaths: string[],
+  validator: SpecValidator,
+  format: ReportFormat,
+  output?: string
+): Promise<never> {
+  if (format === 'pretty') {
+    logger.info(`Validating ${specPaths.length} spec file(s)\n`);
+  }
 
-        logger.error(`Found ${result.errors.length} error(s):\n`);
+  const files = await mapWithConcurrency(specPaths, SPEC_CONCURRENCY, specPath =>
+    validateFile(specPath, validator)
+  );
+  const exitCode = Math.max(...files.map(file => file.exitCode)) as ExitCode;
+  const reported = files.map(({ exitCode: _exitCode, ...file }) => file);
 
-        let errorIndex = 0;
-        for (const [type, errors] of Object.entries(errorsByType)) {
-          for (const error of errors) {
-            formatError(error, errorIndex++);
-          }
-        }
-      }
+  if (format !== 'pretty') {
+    await writeReport(formatSpecReports(reported, format, validator.listRules()), output);
+    process.exit(exitCode);
+  }
+
+  for (const { specPath, result, skipped } of reported) {
+    logger.bold(specPath);
+    logger.divider();
+    if (skipped) {
+      logger.dim(`Skipped: ${skipped}`);
+    } else {
+      printResult(result, false);
+    }
+    logger.newLine();
+  }
+
+  printSummary(reported);
+  process.exit(exitCode);
+}
+
+export async function validateSpecCommand(
+  specArgs: string[],
+  options: ValidateSpecOptions
+): Promise<void> {
+  let config: ValidatorConfig;
+  try {
+    ({ config } = await loadConfig(options.config));
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  // CLI arguments take precedence over config file values
+  const patterns = specArgs.length > 0 ? specArgs : config.spec ? [config.spec] : [];
+  if (patterns.length === 0) {
+    logger.error('No spec path given - pass <path> or set "spec" in the config file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const format = options.format ?? 'pretty';
+  if (!isReportFormat(format)) {
+    logger.error(`Unknown format "${format}" - expected pretty, json, junit or sarif`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  if (options.watch && format !== 'pretty') {
+    logger.error('--watch only supports the pretty format');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  if (patterns.some(isStdin) && patterns.length > 1) {
+    logger.error('- (stdin) cannot be combined with other spec paths');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+  if (patterns.some(isStdin) && options.watch) {
+    logger.error('--watch cannot be used when reading the spec from stdin');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const specPaths = await expandSpecPaths(patterns);
+  if (specPaths.length === 0) {
+    logger.error(`No spec files found for ${patterns.join(', ')}`);
+    process.exit(ExitCodes.FILE_NOT_FOUND);
+  }
+
+  // A single plain path keeps the detailed single-spec output
+  const single = patterns.length === 1 && specPaths.length === 1 && specPaths[0] === patterns[0];
+  if (!single && (options.watch || options.prune)) {
+    logger.error('--watch and --prune take a single spec file');
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  const specPath = specPaths[0];
+  if (single && format === 'pretty' && !options.watch) {
+    logger.info(`Validating OpenAPI specification: ${isStdin(specPath) ? 'stdin' : specPath}\n`);
+  }
+
+  // Unknown rules and bad severities are option errors, not spec errors
+  let validator: SpecValidator;
+  try {
+    const customRules = await loadCustomRules(options.customRules ?? config.customRules ?? []);
+    validator = new SpecValidator({
+      strict: options.strict ?? config.strict ?? false,
+      rules: { ...config.rules, ...parseRuleSettings(options.rule) },
+      customRules,
+    });
+  } catch (error) {
+    logger.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(ExitCodes.INVALID_COMMAND);
+  }
+
+  try {
+    if (!single) {
+      await validateSpecFiles(specPaths, validator, format, options.output);
+    }
 
-      if (result.warnings && result.warnings.length > 0) {
-        logger.warn(`\nWarnings (${result.warnings.length}):`);
-        result.warnings.forEach((warning, index) => {
-          logger.warn(`  ${index + 1}. ${warning}`);
-        });
+    if (options.watch) {
+      await watchSpec(specPath, validator);
+      return;
+    }
+
+    // Load the spec file and validate
+    const { content, document } = await loadSpecSource(specPath);
+    const documentPath = resolveSpecPath(specPath, options.basePath);
+    const result = await validator.validate(document, documentPath, content);
+
+    if (options.prune) {
+      const removed = await writePrunedSpec(documentPath, options.prune, content);
+      if (format === 'pretty') {
+        logger.info(`Removed ${removed} unused component(s), pruned spec written to ${options.prune}\n`);
       }
+    }
 
-      process.exit(ExitCodes.VALIDATION_FAILED);
+    if (format !== 'pretty') {
+      const report = formatSpecReport(result, format, documentPath, validator.listRules());
+      await writeReport(report, options.output);
+      process.exit(result.valid ? ExitCodes.SUCCESS : ExitCodes.VALIDATION_FAILED);
     }
+
+    printResult(result);
+    process.exit(result.valid ? ExitCodes.SUCCESS : ExitCodes.VALIDATION_FAILED);
   } catch (error) {
     if (error instanceof Error) {
       if (error.message.includes('ENOENT') || error.message.includes('not found')) {
@@ -121,6 +420,108 @@ export async function validateSpecCommand(
   }
 }
 
+/**
+ * The entry file and every local file reached through $ref
+ */
+async function specFiles(specPath: string): Promise<string[]> {
+  try {
+    return (await loadSourceMap(specPath)).fileNames;
+  } catch {
+    return [resolve(specPath)];
+  }
+}
+
+function formatIssue(entry: ReportedIssue, index: number): void {
+  if (entry.severity === 'error') {
+    formatError(entry.issue, index);
+  } else {
+    formatWarning(entry.issue, index);
+  }
+}
+
+function printChanges(
+  specPath: string,
+  result: ValidationResult,
+  previous: ValidationResult | undefined,
+  changed: string[]
+): void {
+  const { added, fixed, remaining } = diffResults(previous, result);
+  const time = new Date().toLocaleTimeString();
+
+  logger.clear();
+  if (changed.length > 0) {
+    const files = changed.map(file => relative(process.cwd(), file)).join(', ');
+    logger.info(`[${time}] ${files} changed`);
+  } else {
+    logger.info(`[${time}] Validating OpenAPI specification: ${specPath}`);
+  }
+  logger.newLine();
+
+  if (fixed.length > 0) {
+    logger.success(`Fixed (${fixed.length}):`);
+    fixed.forEach(({ issue }) => {
+      const ruleLabel = issue.rule ? ` (${issue.rule})` : '';
+      logger.success(`  ✓ ${issue.message}${ruleLabel}`);
+    });
+    logger.newLine();
+  }
+
+  if (added.length > 0) {
+    logger.bold(`New (${added.length}):`);
+    added.forEach(formatIssue);
+    logger.newLine();
+  }
+
+  if (remaining.length > 0) {
+    logger.bold(`Remaining (${remaining.length}):`);
+    remaining.forEach(({ issue }) => {
+      const where = issue.location ? ` - ${formatLocation(issue.location, process.cwd())}` : '';
+      logger.dim(`  • ${issue.message}${where}`);
+    });
+    logger.newLine();
+  }
+
+  const errorCount = result.errors?.length ?? 0;
+  const warningCount = result.warnings?.length ?? 0;
+  const summary = `${errorCount} error(s), ${warningCount} warning(s) - watching for changes`;
+  if (errorCount > 0) {
+    logger.error(summary);
+  } else {
+    logger.success(summary);
+  }
+}
+
+/**
+ * Validate the spec again whenever it or a file it references changes
+ */
+async function watchSpec(specPath: string, validator: SpecValidator): Promise<void> {
+  let previous: ValidationResult | undefined;
+
+  const run = async (changed: string[]): Promise<string[]> => {
+    let result: ValidationResult;
+    try {
+      const { content, document } = await loadSpecSource(specPath);
+      result = await validator.validate(document, specPath, content);
+    } catch (error) {
+      // A half-saved file must not stop the watcher
+      const message = error instanceof Error ? error.message : String(error);
+      result = { valid: false, errors: [{ type: 'syntax-error', message }] };
+    }
+
+    printChanges(specPath, result, previous, changed);
+    previous = result;
+    return specFiles(specPath);
+  };
+
+  const watcher = new FileWatcher(run);
+  watcher.add(await run([]));
+
+  process.on('SIGINT', () => {
+    watcher.close();
+    process.exit(ExitCodes.SUCCESS);
+  });
+}
+
 function groupErrorsByType(errors: ValidationError[]): Record<string, ValidationError[]> {
   return errors.reduce((acc, error) => {
     if (!acc[error.type]) {
@@ -1,6 +1,11 @@
 import { Command } from 'commander';
 import { validateSpecCommand } from './commands/validate-spec.js';
 import { validateApiCommand } from './commands/validate-api.js';
+import { diffCommand } from './commands/diff.js';
+import { bundleCommand } from './commands/bundle.js';
+import { fixCommand } from './commands/fix.js';
+import { statsCommand } from './commands/stats.js';
+import { convertCommand } from './commands/convert.js';
 
 const program = new Command();
 
@@ -12,20 +17,83 @@ program
 program
   .command('validate-spec')
   .description('Validate an OpenAPI/Swagger specification file')
-  .argument('<path>', 'Path to the OpenAPI spec file (YAML or JSON)')
-  .option('--strict', 'Enable strict validation mode', false)
+  .argument('[paths...]', 'Spec files, directories or glob patterns (YAML or JSON), or - for stdin')
+  .option('-c, --config <path>', 'Path to a config file (default: searched from the working directory)')
+  .option('--strict', 'Enable strict validation mode')
+  .option('-r, --rule <setting...>', 'Set rule severity in format "rule-id=off|warn|error"')
+  .option('--custom-rules <modules...>', 'Load additional lint rules from local JavaScript modules')
+  .option('-f, --format <format>', 'Output format: pretty, json, junit or sarif (default: pretty)')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--prune <file>', 'Write the spec without unused components to a file')
+  .option('-w, --watch', 'Re-validate whenever the spec or a file it references changes')
+  .option('--base-path <dir>', 'Directory relative $refs resolve from for a spec read from stdin')
   .action(validateSpecCommand);
 
 program
   .command('validate-api')
   .description('Validate live API responses against an OpenAPI spec')
-  .argument('<spec>', 'Path to the OpenAPI spec file')
-  .requiredOption('-u, --url <baseUrl>', 'Base URL of the API to validate')
+  .argument('[spec]', 'Path to the OpenAPI spec file, or - for stdin')
+  .option('-c, --config <path>', 'Path to a config file (default: searched from the working directory)')
+  .option('-u, --url <baseUrl>', 'Base URL of the API to validate')
   .option('-e, --endpoints <paths>', 'Comma-separated list of endpoints to test')
   .option('-H, --header <headers...>', 'Custom headers in format "Key:Value"')
-  .option('--timeout <ms>', 'Request timeout in milliseconds', '5000')
+  .option('--timeout <ms>', 'Request timeout in milliseconds (default: 5000)')
+  .option('--concurrency <n>', 'Number of requests to send in parallel (default: 1)')
+  .option('--serial <methods>', 'Comma-separated methods to run one at a time, e.g. "post,put,patch,delete"')
+  .option('--retries <n>', 'Retry 429 responses, and network errors and 5xx responses of idempotent methods, up to n times (default: 0)')
+  .option('--retry-delay <ms>', 'Backoff before the first retry, doubled for each further one (default: 500)')
+  .option('--max-retry-wait <ms>', 'Longest Retry-After wait to honor before giving up (default: 30000)')
+  .option('--rate <req/s>', 'Start at most this many requests per second, retries included')
+  .option('-s, --scenario <file>', 'Run the steps of a scenario file instead of every operation')
+  .option('-f, --format <format>', 'Output format: pretty, json, junit or sarif (default: pretty)')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('--base-path <dir>', 'Directory relative $refs resolve from for a spec read from stdin')
   .action(validateApiCommand);
 
+program
+  .command('diff')
+  .description('Detect breaking changes between two versions of a spec')
+  .argument('<old>', 'Path to the previous version of the spec')
+  .argument('<new>', 'Path to the new version of the spec')
+  .option('-f, --format <format>', 'Output format: pretty or json (default: pretty)')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(diffCommand);
+
+program
+  .command('bundle')
+  .description('Combine a multi-file spec into a single self-contained file')
+  .argument('<entry>', 'Path to the root spec file')
+  .option('-o, --output <file>', 'Write the bundle to a file instead of stdout')
+  .option('-f, --format <format>', 'Output format: yaml or json (default: from output extension, else yaml)')
+  .option('--dereference', 'Inline every $ref except circular ones')
+  .action(bundleCommand);
+
+program
+  .command('fix')
+  .description('Apply mechanical fixes for common spec problems in place')
+  .argument('[path]', 'Path to the OpenAPI spec file (YAML or JSON)')
+  .option('-c, --config <path>', 'Path to a config file (default: searched from the working directory)')
+  .option('--dry-run', 'Show the changes as a diff without writing the file')
+  .action(fixCommand);
+
+program
+  .command('stats')
+  .description('Report an inventory of the spec: operations, security, schemas and documentation')
+  .argument('[path]', 'Path to the OpenAPI spec file')
+  .option('-c, --config <path>', 'Path to a config file (default: searched from the working directory)')
+  .option('-f, --format <format>', 'Output format: pretty or json (default: pretty)')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(statsCommand);
+
+program
+  .command('convert')
+  .description('Upgrade a Swagger 2.0 spec to OpenAPI 3.0 or 3.1')
+  .argument('[spec]', 'Path to the Swagger 2.0 spec file')
+  .option('-t, --to <version>', 'Target version: 3.0 or 3.1 (default: 3.0)')
+  .option('-o, --output <file>', 'Write the converted spec to a file instead of stdout (JSON for .json)')
+  .option('-c, --config <path>', 'Path to a config file (default: searched from the working directory)')
+  .action(convertCommand);
+
 export function cli(): void {
   program.parse();
 }
@@ -0,0 +1,80 @@
+import { writeFile } from 'fs/promises';
+import type {
+  ApiValidationResult,
+  LintRule,
+  ReportFormat,
+  SourceLocation,
+  SpecFileResult,
+  ValidationResult,
+} from '../utils/types.js';
+import { apiResultsToJson, specResultsToJson, specResultToJson } from './json.js';
+import { apiResultsToJUnit, specResultsToJUnit, specResultToJUnit } from './junit.js';
+import { apiResultsToSarif, specResultsToSarif, specResultToSarif } from './sarif.js';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['pretty', 'json', 'junit', 'sarif'];
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function formatSpecReport(
+  result: ValidationResult,
+  format: Exclude<ReportFormat, 'pretty'>,
+  specPath: string,
+  rules?: LintRule[]
+): string {
+  switch (format) {
+    case 'json':
+      return specResultToJson(result, specPath);
+    case 'junit':
+      return specResultToJUnit(result, specPath);
+    case 'sarif':
+      return specResultToSarif(result, { specPath, rules });
+  }
+}
+
+/**
+ * Serialize the results of several spec files into one report
+ */
+export function formatSpecReports(
+  files: SpecFileResult[],
+  format: Exclude<ReportFormat, 'pretty'>,
+  rules?: LintRule[]
+): string {
+  switch (format) {
+    case 'json':
+      return specResultsToJson(files);
+    case 'junit':
+      return specResultsToJUnit(files);
+    case 'sarif':
+      return specResultsToSarif(files, rules);
+  }
+}
+
+export function formatApiReport(
+  results: ApiValidationResult[],
+  format: Exclude<ReportFormat, 'pretty'>,
+  specPath: string,
+  baseUrl: string,
+  locate?: (pointer: string) => SourceLocation | undefined
+): string {
+  switch (format) {
+    case 'json':
+      return apiResultsToJson(results, specPath, baseUrl);
+    case 'junit':
+      return apiResultsToJUnit(results, specPath);
+    case 'sarif':
+      return apiResultsToSarif(results, { specPath, locate });
+  }
+}
+
+/**
+ * Write a serialized report to a file, or to stdout when no file is given
+ */
+export async function writeReport(content: string, outputPath?: string): Promise<void> {
+  if (outputPath) {
+    await writeFile(outputPath, content.endsWith('\n') ? content : `${content}\n`, 'utf-8');
+  } else {
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+  }
+}
@@ -0,0 +1,36 @@
+import type { ApiValidationResult, SpecFileResult, ValidationResult } from '../utils/types.js';
+import { summarizeApiResults, summarizeSpecResults } from './summary.js';
+
+export function specResultToJson(result: ValidationResult, specPath: string): string {
+  return JSON.stringify({ specPath, ...result }, null, 2);
+}
+
+export function specResultsToJson(files: SpecFileResult[]): string {
+  return JSON.stringify(
+    {
+      summary: summarizeSpecResults(files),
+      results: files.map(({ specPath, result, skipped }) =>
+        skipped ? { specPath, skipped } : { specPath, ...result }
+      ),
+    },
+    null,
+    2
+  );
+}
+
+export function apiResultsToJson(
+  results: ApiValidationResult[],
+  specPath: string,
+  baseUrl: string
+): string {
+  return JSON.stringify(
+    {
+      specPath,
+      baseUrl,
+      summary: summarizeApiResults(results),
+      results,
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,152 @@
+import type {
+  ApiValidationResult,
+  SpecFileResult,
+  ValidationError,
+  ValidationResult,
+} from '../utils/types.js';
+import { formatLocation } from '../utils/source-map.js';
+import { isSetupErrorResult, isSkippedResult, summarizeApiResults } from './summary.js';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function describeError(error: ValidationError): string {
+  const lines = [error.message];
+  if (error.location) lines.push(`At: ${formatLocation(error.location, process.cwd())}`);
+  for (const related of error.related ?? []) {
+    const where = related.location
+      ? formatLocation(related.location, process.cwd())
+      : related.pointer;
+    lines.push(`Also: ${where}`);
+  }
+  if (error.path) lines.push(`Path: ${error.path}`);
+  if (error.details) lines.push(`Details: ${error.details}`);
+  return lines.join('\n');
+}
+
+function specTestSuite({ specPath, result, skipped }: SpecFileResult): {
+  lines: string[];
+  tests: number;
+  failures: number;
+} {
+  if (skipped) {
+    return {
+      lines: [
+        `  <testsuite name="${escapeXml(specPath)}" tests="1" failures="0" errors="0" skipped="1">`,
+        `    <testcase classname="${escapeXml(specPath)}" name="specification">`,
+        `      <skipped message="${escapeXml(skipped)}"/>`,
+        '    </testcase>',
+        '  </testsuite>',
+      ],
+      tests: 1,
+      failures: 0,
+    };
+  }
+
+  const errors = result.errors ?? [];
+  const warnings = result.warnings ?? [];
+  const testCases: string[] = [];
+
+  if (errors.length === 0) {
+    testCases.push(`    <testcase classname="${escapeXml(specPath)}" name="specification"/>`);
+  }
+
+  errors.forEach((error, index) => {
+    const name = error.rule ?? error.type;
+    testCases.push(
+      [
+        `    <testcase classname="${escapeXml(specPath)}" name="${escapeXml(`${index + 1}. ${name}`)}">`,
+        `      <failure type="${escapeXml(error.type)}" message="${escapeXml(error.message)}">${escapeXml(describeError(error))}</failure>`,
+        '    </testcase>',
+      ].join('\n')
+    );
+  });
+
+  const systemOut = warnings.length
+    ? [
+        `    <system-out>${escapeXml(
+          warnings.map(w => `warning: ${w.message}${w.rule ? ` (${w.rule})` : ''}`).join('\n')
+        )}</system-out>`,
+      ]
+    : [];
+
+  return {
+    lines: [
+      `  <testsuite name="${escapeXml(specPath)}" tests="${testCases.length}" failures="${errors.length}" errors="0" skipped="0">`,
+      ...testCases,
+      ...systemOut,
+      '  </testsuite>',
+    ],
+    tests: testCases.length,
+    failures: errors.length,
+  };
+}
+
+export function specResultToJUnit(result: ValidationResult, specPath: string): string {
+  return specResultsToJUnit([{ specPath, result }]);
+}
+
+/**
+ * One test suite per spec file
+ */
+export function specResultsToJUnit(files: SpecFileResult[]): string {
+  const suites = files.map(specTestSuite);
+  const tests = suites.reduce((sum, suite) => sum + suite.tests, 0);
+  const failures = suites.reduce((sum, suite) => sum + suite.failures, 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="openapi-auto-validator" tests="${tests}" failures="${failures}">`,
+    ...suites.flatMap(suite => suite.lines),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+export function apiResultsToJUnit(results: ApiValidationResult[], specPath: string): string {
+  const summary = summarizeApiResults(results);
+  const totalTime = results.reduce((sum, r) => sum + r.responseTime, 0) / 1000;
+
+  const testCases = results.map(result => {
+    // Scenario steps can repeat an operation, so their name leads
+    const step = result.step ? `${result.step}: ` : '';
+    const name = `${step}${result.method.toUpperCase()} ${result.path}`;
+    const open = `    <testcase classname="${escapeXml(specPath)}" name="${escapeXml(name)}" time="${result.responseTime / 1000}"`;
+
+    if (isSkippedResult(result)) {
+      return `${open}>\n      <skipped message="${escapeXml(result.error ?? 'Skipped')}"/>\n    </testcase>`;
+    }
+
+    if (result.valid) {
+      return `${open}/>`;
+    }
+
+    const message = result.error ?? 'Validation failed';
+    const body = [
+      result.statusCode ? `Status: ${result.statusCode}` : undefined,
+      ...(result.details ?? []),
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    // JUnit tells errors in running a test apart from failed assertions
+    const element = isSetupErrorResult(result) ? 'error' : 'failure';
+    return `${open}>\n      <${element} message="${escapeXml(message)}">${escapeXml(body)}</${element}>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="openapi-auto-validator" tests="${results.length}" failures="${summary.failed}" errors="${summary.setupErrors}" time="${totalTime}">`,
+    `  <testsuite name="${escapeXml(specPath)}" tests="${results.length}" failures="${summary.failed}" errors="${summary.setupErrors}" skipped="${summary.skipped}" time="${totalTime}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,201 @@
+import { relative, sep } from 'path';
+import type {
+  ApiValidationResult,
+  LintRule,
+  RelatedLocation,
+  SourceLocation,
+  SpecFileResult,
+  ValidationResult,
+} from '../utils/types.js';
+import { toPointer } from '../utils/openapi.js';
+import { isSetupErrorResult, isSkippedResult } from './summary.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const TOOL_NAME = 'openapi-auto-validator';
+const TOOL_VERSION = '1.0.0';
+
+interface SarifRule {
+  id: string;
+  shortDescription: { text: string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number };
+    };
+  }>;
+  relatedLocations?: Array<{
+    id: number;
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number };
+    };
+  }>;
+}
+
+export interface SarifOptions {
+  specPath: string;
+  rules?: LintRule[];
+  locate?: (pointer: string) => SourceLocation | undefined;
+}
+
+function toUri(file: string): string {
+  const relativePath = relative(process.cwd(), file);
+  const path = relativePath && !relativePath.startsWith('..') ? relativePath : file;
+  return path.split(sep).join('/');
+}
+
+function toSarifLocation(
+  location: SourceLocation | undefined,
+  fallbackFile: string
+): NonNullable<SarifResult['locations']> {
+  if (!location) {
+    return [{ physicalLocation: { artifactLocation: { uri: toUri(fallbackFile) } } }];
+  }
+
+  return [
+    {
+      physicalLocation: {
+        artifactLocation: { uri: toUri(location.file) },
+        region: { startLine: location.line, startColumn: location.column },
+      },
+    },
+  ];
+}
+
+function toSarifRelated(
+  related: RelatedLocation[] | undefined,
+  fallbackFile: string
+): Pick<SarifResult, 'relatedLocations'> {
+  if (!related?.length) return {};
+
+  return {
+    relatedLocations: related.map((entry, index) => ({
+      id: index + 1,
+      ...toSarifLocation(entry.location, fallbackFile)[0],
+    })),
+  };
+}
+
+function buildLog(rules: SarifRule[], results: SarifResult[]): string {
+  return JSON.stringify(
+    {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              version: TOOL_VERSION,
+              rules,
+            },
+          },
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Serialize spec validation results as SARIF 2.1.0. Lint rule findings keep
+ * their rule id, other errors are reported under `spec/<error-type>`.
+ */
+export function specResultToSarif(result: ValidationResult, options: SarifOptions): string {
+  return specResultsToSarif([{ specPath: options.specPath, result }], options.rules);
+}
+
+/**
+ * Serialize the results of several spec files as one SARIF run
+ */
+export function specResultsToSarif(files: SpecFileResult[], ruleList: LintRule[] = []): string {
+  const rules = new Map<string, SarifRule>();
+  const results: SarifResult[] = [];
+
+  for (const rule of ruleList) {
+    rules.set(rule.id, { id: rule.id, shortDescription: { text: rule.description || rule.id } });
+  }
+
+  const addRule = (id: string): void => {
+    if (!rules.has(id)) {
+      rules.set(id, { id, shortDescription: { text: id } });
+    }
+  };
+
+  for (const { specPath, result, skipped } of files) {
+    if (skipped) continue;
+
+    for (const error of result.errors ?? []) {
+      const ruleId = error.rule ?? `spec/${error.type}`;
+      addRule(ruleId);
+      results.push({
+        ruleId,
+        level: 'error',
+        message: { text: error.details ? `${error.message}\n${error.details}` : error.message },
+        locations: toSarifLocation(error.location, specPath),
+        ...toSarifRelated(error.related, specPath),
+      });
+    }
+
+    for (const warning of result.warnings ?? []) {
+      const ruleId = warning.rule ?? 'spec/warning';
+      addRule(ruleId);
+      results.push({
+        ruleId,
+        level: 'warning',
+        message: { text: warning.message },
+        locations: toSarifLocation(warning.location, specPath),
+        ...toSarifRelated(warning.related, specPath),
+      });
+    }
+  }
+
+  return buildLog([...rules.values()], results);
+}
+
+/**
+ * Serialize live API results as SARIF 2.1.0, pointing each failure at the
+ * operation it came from in the spec
+ */
+export function apiResultsToSarif(results: ApiValidationResult[], options: SarifOptions): string {
+  const rules: SarifRule[] = [
+    { id: 'api/contract', shortDescription: { text: 'API response does not match the spec' } },
+    { id: 'api/skipped', shortDescription: { text: 'Endpoint could not be tested' } },
+    {
+      id: 'api/setup',
+      shortDescription: { text: 'Generated request does not match the spec' },
+    },
+  ];
+  const sarifResults: SarifResult[] = [];
+
+  for (const result of results) {
+    if (result.valid && !isSkippedResult(result)) continue;
+
+    const skipped = isSkippedResult(result);
+    const operation = `${result.method.toUpperCase()} ${result.path}`;
+    const status = result.statusCode ? ` [${result.statusCode}]` : '';
+    const details = result.details?.length ? `\n${result.details.join('\n')}` : '';
+
+    const setup = isSetupErrorResult(result);
+
+    sarifResults.push({
+      ruleId: skipped ? 'api/skipped' : setup ? 'api/setup' : 'api/contract',
+      level: skipped ? 'note' : setup ? 'warning' : 'error',
+      message: { text: `${operation}${status} - ${result.error ?? 'Validation failed'}${details}` },
+      locations: toSarifLocation(
+        options.locate?.(toPointer(['paths', result.path, result.method])),
+        options.specPath
+      ),
+    });
+  }
+
+  return buildLog(rules, sarifResults);
+}
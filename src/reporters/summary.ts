@@ -0,0 +1,64 @@
+import type { ApiValidationResult, SpecFileResult } from '../utils/types.js';
+
+export interface ApiSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Requests that could not be built to match the spec, so were never sent */
+  setupErrors: number;
+}
+
+export function isSkippedResult(result: ApiValidationResult): boolean {
+  return result.error?.startsWith('Skipped') ?? false;
+}
+
+export function isSetupErrorResult(result: ApiValidationResult): boolean {
+  return result.error?.startsWith('Test setup error') ?? false;
+}
+
+export function summarizeApiResults(results: ApiValidationResult[]): ApiSummary {
+  const summary: ApiSummary = { passed: 0, failed: 0, skipped: 0, setupErrors: 0 };
+
+  for (const result of results) {
+    if (isSkippedResult(result)) {
+      summary.skipped++;
+    } else if (isSetupErrorResult(result)) {
+      summary.setupErrors++;
+    } else if (result.valid) {
+      summary.passed++;
+    } else {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+export interface SpecSummary {
+  valid: number;
+  invalid: number;
+  skipped: number;
+  errors: number;
+  warnings: number;
+}
+
+export function summarizeSpecResults(files: SpecFileResult[]): SpecSummary {
+  const summary: SpecSummary = { valid: 0, invalid: 0, skipped: 0, errors: 0, warnings: 0 };
+
+  for (const { result, skipped } of files) {
+    if (skipped) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (result.valid) {
+      summary.valid++;
+    } else {
+      summary.invalid++;
+    }
+    summary.errors += result.errors?.length ?? 0;
+    summary.warnings += result.warnings?.length ?? 0;
+  }
+
+  return summary;
+}
@@ -0,0 +1,174 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import type { LintRule, RuleFinding } from '../utils/types.js';
+import { getOperations, getSpecVersion } from '../utils/openapi.js';
+import { describeComponent, findUnusedComponents } from '../utils/components.js';
+import { exampleSchemaMatch } from './examples.js';
+import { namingRules } from './naming.js';
+import { pathRules } from './paths.js';
+import { securityRules } from './security.js';
+
+const pathsDefined: LintRule = {
+  id: 'paths-defined',
+  description: 'The specification should define at least one path',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    if (!api.paths || Object.keys(api.paths).length === 0) {
+      return [{ message: 'No paths defined in the specification', path: ['paths'] }];
+    }
+    return [];
+  },
+};
+
+const infoDescription: LintRule = {
+  id: 'info-description',
+  description: 'The info object should have a description',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    if (!api.info?.description) {
+      return [{ message: 'Missing API description', path: ['info'] }];
+    }
+    return [];
+  },
+};
+
+const operationOperationId: LintRule = {
+  id: 'operation-operationId',
+  description: 'Every operation should have an operationId',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    const findings: RuleFinding[] = [];
+
+    for (const { path, method, operation } of getOperations(api)) {
+      if (!operation.operationId) {
+        findings.push({
+          message: `Missing operationId for ${method.toUpperCase()} ${path}`,
+          path: ['paths', path, method],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const operationIdUnique: LintRule = {
+  id: 'operation-id-unique',
+  description: 'Every operationId must be unique across the specification',
+  defaultSeverity: 'error',
+  check({ api }) {
+    const findings: RuleFinding[] = [];
+    const seen = new Map<string, { path: string; method: string }>();
+
+    for (const { path, method, operation } of getOperations(api)) {
+      const { operationId } = operation;
+      if (!operationId) continue;
+
+      const first = seen.get(operationId);
+      if (!first) {
+        seen.set(operationId, { path, method });
+        continue;
+      }
+
+      findings.push({
+        message: `Duplicate operationId "${operationId}" for ${method.toUpperCase()} ${path} - already used by ${first.method.toUpperCase()} ${first.path}`,
+        path: ['paths', path, method, 'operationId'],
+        related: [['paths', first.path, first.method, 'operationId']],
+      });
+    }
+
+    return findings;
+  },
+};
+
+const operationSummary: LintRule = {
+  id: 'operation-summary',
+  description: 'Every operation should have a summary or description',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    const findings: RuleFinding[] = [];
+
+    for (const { path, method, operation } of getOperations(api)) {
+      if (!operation.summary && !operation.description) {
+        findings.push({
+          message: `Missing summary/description for ${method.toUpperCase()} ${path}`,
+          path: ['paths', path, method],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const operationResponses: LintRule = {
+  id: 'operation-responses',
+  description: 'Every operation should define at least one response',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    const findings: RuleFinding[] = [];
+
+    for (const { path, method, operation } of getOperations(api)) {
+      if (!operation.responses || Object.keys(operation.responses).length === 0) {
+        findings.push({
+          message: `No responses defined for ${method.toUpperCase()} ${path}`,
+          path: ['paths', path, method, 'responses'],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const securitySchemesDefined: LintRule = {
+  id: 'security-schemes-defined',
+  description: 'Security requirements need matching security schemes',
+  defaultSeverity: 'warn',
+  check({ api }) {
+    // Swagger 2.0 declares its schemes as securityDefinitions
+    const schemes =
+      getSpecVersion(api) === '2.0'
+        ? (api as OpenAPIV2.Document).securityDefinitions
+        : (api as OpenAPIV3.Document).components?.securitySchemes;
+
+    if (api.security && api.security.length > 0) {
+      if (!schemes) {
+        return [
+          {
+            message: 'Security requirements defined but no security schemes found',
+            path: ['security'],
+          },
+        ];
+      }
+    }
+
+    return [];
+  },
+};
+
+const noUnusedComponents: LintRule = {
+  id: 'no-unused-components',
+  description: 'Reusable components should be referenced somewhere in the specification',
+  defaultSeverity: 'warn',
+  check({ document, externalRefs }) {
+    return findUnusedComponents(document, externalRefs).map(component => ({
+      message: describeComponent(component),
+      path: component.path,
+    }));
+  },
+};
+
+export const builtinRules: LintRule[] = [
+  pathsDefined,
+  infoDescription,
+  operationOperationId,
+  operationIdUnique,
+  operationSummary,
+  operationResponses,
+  securitySchemesDefined,
+  ...securityRules,
+  exampleSchemaMatch,
+  noUnusedComponents,
+  ...namingRules,
+  ...pathRules,
+];
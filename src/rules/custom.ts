@@ -0,0 +1,57 @@
+import { extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { LintRule } from '../utils/types.js';
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+function isLintRule(value: unknown): value is Partial<LintRule> & Pick<LintRule, 'id' | 'check'> {
+  if (!value || typeof value !== 'object') return false;
+  const rule = value as Partial<LintRule>;
+  return typeof rule.id === 'string' && typeof rule.check === 'function';
+}
+
+/**
+ * Load custom rules from local modules. A module may export a rule or an
+ * array of rules as its default export, or an array under `rules`.
+ * Only JavaScript modules are supported: TypeScript rules must be compiled first.
+ */
+export async function loadCustomRules(
+  modulePaths: string[],
+  baseDir: string = process.cwd()
+): Promise<LintRule[]> {
+  const rules: LintRule[] = [];
+
+  for (const modulePath of modulePaths) {
+    const absolutePath = resolve(baseDir, modulePath);
+
+    if (TYPESCRIPT_EXTENSIONS.includes(extname(modulePath))) {
+      throw new Error(
+        `Cannot load custom rules from ${modulePath}: TypeScript modules are not supported, compile them to JavaScript first`
+      );
+    }
+
+    let mod: Record<string, unknown>;
+    try {
+      mod = await import(pathToFileURL(absolutePath).href);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load custom rules from ${modulePath}: ${message}`);
+    }
+
+    const exported = mod.rules ?? mod.default;
+    const candidates = Array.isArray(exported) ? exported : [exported];
+
+    for (const candidate of candidates) {
+      if (!isLintRule(candidate)) {
+        throw new Error(`Invalid rule exported from ${modulePath}: expected { id, check }`);
+      }
+      rules.push({
+        ...candidate,
+        description: candidate.description ?? '',
+        defaultSeverity: candidate.defaultSeverity ?? 'warn',
+      });
+    }
+  }
+
+  return rules;
+}
@@ -0,0 +1,208 @@
+import type { LintRule, RuleFinding } from '../utils/types.js';
+import { HTTP_METHODS, forEachSubschema, getSpecVersion } from '../utils/openapi.js';
+import { SchemaCompiler } from '../utils/schema-compiler.js';
+import { inlineSchema } from '../utils/swagger2.js';
+
+type Segments = Array<string | number>;
+type Node = Record<string, unknown>;
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Walks every parameter, header, media type and schema of a document and
+ * validates the examples found there against the schema they belong to.
+ * Each object is visited once, so an example in a shared component is
+ * reported where it is first reached.
+ */
+class ExampleChecker {
+  readonly findings: RuleFinding[] = [];
+  private compiler: SchemaCompiler;
+  private visited = new WeakSet<object>();
+  private isSwagger: boolean;
+
+  constructor(private api: Node) {
+    this.compiler = new SchemaCompiler(api);
+    this.isSwagger = getSpecVersion(api) === '2.0';
+  }
+
+  run(): RuleFinding[] {
+    const api = this.api;
+
+    if (this.isSwagger) {
+      this.eachEntry(api.definitions, ['definitions'], (s, p) => this.checkSchema(s, p));
+      this.eachEntry(api.parameters, ['parameters'], (s, p) => this.checkParameter(s, p));
+      this.eachEntry(api.responses, ['responses'], (s, p) => this.checkResponse(s, p));
+    } else if (isObject(api.components)) {
+      const c = api.components;
+      this.eachEntry(c.schemas, ['components', 'schemas'], (s, p) => this.checkSchema(s, p));
+      this.eachEntry(c.parameters, ['components', 'parameters'], (s, p) =>
+        this.checkParameter(s, p)
+      );
+      this.eachEntry(c.headers, ['components', 'headers'], (s, p) => this.checkParameter(s, p));
+      this.eachEntry(c.requestBodies, ['components', 'requestBodies'], (s, p) =>
+        this.checkContent(s.content, [...p, 'content'])
+      );
+      this.eachEntry(c.responses, ['components', 'responses'], (s, p) => this.checkResponse(s, p));
+    }
+
+    this.eachEntry(api.paths, ['paths'], (s, p) => this.checkPathItem(s, p));
+    this.eachEntry(api.webhooks, ['webhooks'], (s, p) => this.checkPathItem(s, p));
+
+    return this.findings;
+  }
+
+  private eachEntry(
+    container: unknown,
+    segments: Segments,
+    visit: (node: Node, segments: Segments) => void
+  ): void {
+    if (!isObject(container)) return;
+    for (const [name, node] of Object.entries(container)) {
+      if (isObject(node)) visit(node, [...segments, name]);
+    }
+  }
+
+  private firstVisit(node: object): boolean {
+    if (this.visited.has(node)) return false;
+    this.visited.add(node);
+    return true;
+  }
+
+  private checkPathItem(pathItem: Node, segments: Segments): void {
+    this.checkParameters(pathItem.parameters, [...segments, 'parameters']);
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+
+      const opSegments = [...segments, method];
+      this.checkParameters(operation.parameters, [...opSegments, 'parameters']);
+
+      if (isObject(operation.requestBody) && this.firstVisit(operation.requestBody)) {
+        this.checkContent(operation.requestBody.content, [...opSegments, 'requestBody', 'content']);
+      }
+
+      this.eachEntry(operation.responses, [...opSegments, 'responses'], (s, p) =>
+        this.checkResponse(s, p)
+      );
+    }
+  }
+
+  private checkParameters(parameters: unknown, segments: Segments): void {
+    if (!Array.isArray(parameters)) return;
+    parameters.forEach((param, index) => {
+      if (isObject(param)) this.checkParameter(param, [...segments, index]);
+    });
+  }
+
+  /**
+   * Parameters and headers share their example fields
+   */
+  private checkParameter(param: Node, segments: Segments): void {
+    if (!this.firstVisit(param)) return;
+
+    // Swagger 2.0 keeps the type of non-body parameters and headers inline
+    const schema = isObject(param.schema)
+      ? param.schema
+      : this.isSwagger
+        ? inlineSchema(param)
+        : undefined;
+    if (!schema) return;
+
+    this.checkExamples(param, schema, segments);
+    if (param['x-example'] !== undefined) {
+      this.validate(schema, param['x-example'], [...segments, 'x-example']);
+    }
+
+    if (isObject(param.schema)) {
+      this.checkSchema(param.schema, [...segments, 'schema']);
+    }
+  }
+
+  private checkContent(content: unknown, segments: Segments): void {
+    this.eachEntry(content, segments, (mediaType, mediaSegments) => {
+      if (!this.firstVisit(mediaType) || !isObject(mediaType.schema)) return;
+      this.checkExamples(mediaType, mediaType.schema, mediaSegments);
+      this.checkSchema(mediaType.schema, [...mediaSegments, 'schema']);
+    });
+  }
+
+  private checkResponse(response: Node, segments: Segments): void {
+    if (!this.firstVisit(response)) return;
+
+    this.eachEntry(response.headers, [...segments, 'headers'], (s, p) => this.checkParameter(s, p));
+    this.checkContent(response.content, [...segments, 'content']);
+
+    // Swagger 2.0 keys response examples by mime type
+    if (isObject(response.schema)) {
+      const schema = response.schema;
+      if (isObject(response.examples)) {
+        for (const [mimeType, example] of Object.entries(response.examples)) {
+          this.validate(schema, example, [...segments, 'examples', mimeType]);
+        }
+      }
+      this.checkSchema(schema, [...segments, 'schema']);
+    }
+  }
+
+  /**
+   * Check `example` and the values of an `examples` map next to a schema
+   */
+  private checkExamples(owner: Node, schema: object, segments: Segments): void {
+    if (owner.example !== undefined) {
+      this.validate(schema, owner.example, [...segments, 'example']);
+    }
+
+    this.eachEntry(owner.examples, [...segments, 'examples'], (example, exampleSegments) => {
+      if (example.value !== undefined) {
+        this.validate(schema, example.value, [...exampleSegments, 'value']);
+      }
+    });
+  }
+
+  private checkSchema(schema: Node, segments: Segments): void {
+    if (!this.firstVisit(schema)) return;
+
+    if (schema.example !== undefined) {
+      this.validate(schema, schema.example, [...segments, 'example']);
+    }
+
+    // JSON Schema's own examples keyword is a plain list of values
+    if (Array.isArray(schema.examples)) {
+      schema.examples.forEach((example, index) =>
+        this.validate(schema, example, [...segments, 'examples', index])
+      );
+    }
+
+    forEachSubschema(schema, segments, (sub, subSegments) => this.checkSchema(sub, subSegments));
+  }
+
+  private validate(schema: unknown, example: unknown, segments: Segments): void {
+    let result;
+    try {
+      result = this.compiler.validate(schema, example);
+    } catch {
+      // Schemas Ajv cannot compile are reported by spec validation itself
+      return;
+    }
+
+    for (const error of result.errors) {
+      const at = error.instancePath ? ` at ${error.instancePath}` : '';
+      this.findings.push({
+        message: `Example does not match its schema${at}: ${error.message}`,
+        path: segments,
+      });
+    }
+  }
+}
+
+export const exampleSchemaMatch: LintRule = {
+  id: 'example-schema-match',
+  description: 'Examples must be valid against the schema they belong to',
+  defaultSeverity: 'error',
+  check({ api }) {
+    return new ExampleChecker(api as unknown as Node).run();
+  },
+};
@@ -0,0 +1,267 @@
+import type { OpenAPI } from 'openapi-types';
+import type { LintRule, RuleContext, RuleFinding } from '../utils/types.js';
+import { forEachSubschema, getOperations } from '../utils/openapi.js';
+
+type Node = Record<string, unknown>;
+type Segments = Array<string | number>;
+
+export const CASING_STYLES: Record<string, RegExp> = {
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  'kebab-case': /^[a-z0-9]+(-[a-z0-9]+)*$/,
+  snake_case: /^[a-z0-9]+(_[a-z0-9]+)*$/,
+  SCREAMING_SNAKE_CASE: /^[A-Z0-9]+(_[A-Z0-9]+)*$/,
+};
+
+interface NameMatcher {
+  label: string;
+  test(name: string): boolean;
+}
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Build a matcher from rule options: `{ pattern: '<regex>' }` wins over
+ * `{ style: '<casing style>' }`, which defaults to the rule's own style
+ */
+function nameMatcher(
+  ruleId: string,
+  options: Record<string, unknown>,
+  defaultStyle: string
+): NameMatcher {
+  if (options.pattern !== undefined) {
+    if (typeof options.pattern !== 'string') {
+      throw new Error(`Invalid pattern for rule ${ruleId}: expected a regular expression string`);
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(options.pattern);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid pattern for rule ${ruleId}: ${reason}`);
+    }
+    return { label: `matching /${options.pattern}/`, test: name => regex.test(name) };
+  }
+
+  const style = options.style ?? defaultStyle;
+  const regex = typeof style === 'string' ? CASING_STYLES[style] : undefined;
+  if (!regex) {
+    const styles = Object.keys(CASING_STYLES).join(', ');
+    throw new Error(
+      `Unknown casing style "${String(style)}" for rule ${ruleId} - expected one of ${styles}`
+    );
+  }
+  return { label: style as string, test: name => regex.test(name) };
+}
+
+/**
+ * List the schemas reachable from components and operations, each once,
+ * with the path where it is first reached
+ */
+function collectSchemas(api: OpenAPI.Document): Array<{ schema: Node; segments: Segments }> {
+  const doc = api as unknown as Node;
+  const schemas: Array<{ schema: Node; segments: Segments }> = [];
+  const visited = new WeakSet<object>();
+
+  const add = (schema: unknown, segments: Segments): void => {
+    if (!isObject(schema) || visited.has(schema)) return;
+    visited.add(schema);
+    schemas.push({ schema, segments });
+    forEachSubschema(schema, segments, add);
+  };
+
+  const addContent = (content: unknown, segments: Segments): void => {
+    if (!isObject(content)) return;
+    for (const [mediaType, media] of Object.entries(content)) {
+      if (isObject(media)) add(media.schema, [...segments, mediaType, 'schema']);
+    }
+  };
+
+  const components = isObject(doc.components) ? doc.components : {};
+  const definitions = doc.definitions ?? components.schemas;
+  const definitionsPath = doc.definitions ? ['definitions'] : ['components', 'schemas'];
+  if (isObject(definitions)) {
+    for (const [name, schema] of Object.entries(definitions)) {
+      add(schema, [...definitionsPath, name]);
+    }
+  }
+
+  for (const { path, method, operation, pathItem } of getOperations(api)) {
+    const opSegments = ['paths', path, method];
+
+    const parameterLists: Array<[unknown, Segments]> = [
+      [pathItem.parameters, ['paths', path, 'parameters']],
+      [operation.parameters, [...opSegments, 'parameters']],
+    ];
+    for (const [parameters, segments] of parameterLists) {
+      if (!Array.isArray(parameters)) continue;
+      parameters.forEach((param, index) => {
+        if (isObject(param)) add(param.schema, [...segments, index, 'schema']);
+      });
+    }
+
+    const requestBody = operation.requestBody as unknown;
+    if (isObject(requestBody)) {
+      addContent(requestBody.content, [...opSegments, 'requestBody', 'content']);
+    }
+
+    for (const [status, response] of Object.entries(operation.responses ?? {})) {
+      if (!isObject(response)) continue;
+      const responseSegments = [...opSegments, 'responses', status];
+      add(response.schema, [...responseSegments, 'schema']);
+      addContent(response.content, [...responseSegments, 'content']);
+    }
+  }
+
+  return schemas;
+}
+
+const pathSegmentCasing: LintRule = {
+  id: 'path-segment-casing',
+  description: 'Static path segments should follow the configured casing (default kebab-case)',
+  defaultSeverity: 'off',
+  check({ api, options }: RuleContext) {
+    const matcher = nameMatcher('path-segment-casing', options, 'kebab-case');
+    const findings: RuleFinding[] = [];
+
+    for (const path of Object.keys(api.paths ?? {})) {
+      // Template segments are named by their parameter, which has its own rule
+      const segments = path.split('/').filter(segment => segment && !segment.includes('{'));
+      for (const segment of segments) {
+        if (!matcher.test(segment)) {
+          findings.push({
+            message: `Path segment "${segment}" in ${path} is not ${matcher.label}`,
+            path: ['paths', path],
+          });
+        }
+      }
+    }
+
+    return findings;
+  },
+};
+
+const pathNoTrailingSlash: LintRule = {
+  id: 'path-no-trailing-slash',
+  description: 'Paths should not end with a slash',
+  defaultSeverity: 'off',
+  check({ api }: RuleContext) {
+    return Object.keys(api.paths ?? {})
+      .filter(path => path.length > 1 && path.endsWith('/'))
+      .map(path => ({ message: `Path ${path} has a trailing slash`, path: ['paths', path] }));
+  },
+};
+
+const operationIdCasing: LintRule = {
+  id: 'operation-id-casing',
+  description: 'operationIds should follow the configured casing (default camelCase)',
+  defaultSeverity: 'off',
+  check({ api, options }: RuleContext) {
+    const matcher = nameMatcher('operation-id-casing', options, 'camelCase');
+    const findings: RuleFinding[] = [];
+
+    for (const { path, method, operation } of getOperations(api)) {
+      const { operationId } = operation;
+      if (operationId && !matcher.test(operationId)) {
+        findings.push({
+          message: `operationId "${operationId}" is not ${matcher.label}`,
+          path: ['paths', path, method, 'operationId'],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const parameterCasing: LintRule = {
+  id: 'parameter-casing',
+  description:
+    'Parameter names should follow the configured casing (default camelCase for query and path parameters)',
+  defaultSeverity: 'off',
+  check({ api, options }: RuleContext) {
+    const matcher = nameMatcher('parameter-casing', options, 'camelCase');
+    const locations = Array.isArray(options.in) ? options.in : ['query', 'path'];
+    const findings: RuleFinding[] = [];
+    const visited = new WeakSet<object>();
+
+    const checkList = (parameters: unknown, segments: Segments): void => {
+      if (!Array.isArray(parameters)) return;
+      parameters.forEach((param, index) => {
+        if (!isObject(param) || visited.has(param)) return;
+        visited.add(param);
+
+        const name = param.name;
+        if (typeof name === 'string' && locations.includes(param.in) && !matcher.test(name)) {
+          findings.push({
+            message: `${String(param.in)} parameter "${name}" is not ${matcher.label}`,
+            path: [...segments, index, 'name'],
+          });
+        }
+      });
+    };
+
+    for (const { path, method, operation, pathItem } of getOperations(api)) {
+      checkList(pathItem.parameters, ['paths', path, 'parameters']);
+      checkList(operation.parameters, ['paths', path, method, 'parameters']);
+    }
+
+    return findings;
+  },
+};
+
+const propertyCasing: LintRule = {
+  id: 'property-casing',
+  description: 'Schema property names should follow the configured casing (default camelCase)',
+  defaultSeverity: 'off',
+  check({ api, options }: RuleContext) {
+    const matcher = nameMatcher('property-casing', options, 'camelCase');
+    const findings: RuleFinding[] = [];
+
+    for (const { schema, segments } of collectSchemas(api)) {
+      if (!isObject(schema.properties)) continue;
+      for (const name of Object.keys(schema.properties)) {
+        if (!matcher.test(name)) {
+          findings.push({
+            message: `Property "${name}" is not ${matcher.label}`,
+            path: [...segments, 'properties', name],
+          });
+        }
+      }
+    }
+
+    return findings;
+  },
+};
+
+const schemaNameCasing: LintRule = {
+  id: 'schema-name-casing',
+  description: 'Schema names should follow the configured casing (default PascalCase)',
+  defaultSeverity: 'off',
+  check({ api, options }: RuleContext) {
+    const matcher = nameMatcher('schema-name-casing', options, 'PascalCase');
+    const doc = api as unknown as Node;
+    const components = isObject(doc.components) ? doc.components : {};
+    const [schemas, containerPath] = doc.definitions
+      ? [doc.definitions, ['definitions']]
+      : [components.schemas, ['components', 'schemas']];
+
+    return Object.keys(isObject(schemas) ? schemas : {})
+      .filter(name => !matcher.test(name))
+      .map(name => ({
+        message: `Schema name "${name}" is not ${matcher.label}`,
+        path: [...containerPath, name],
+      }));
+  },
+};
+
+export const namingRules: LintRule[] = [
+  pathSegmentCasing,
+  pathNoTrailingSlash,
+  operationIdCasing,
+  parameterCasing,
+  propertyCasing,
+  schemaNameCasing,
+];
@@ -0,0 +1,254 @@
+import type { LintRule, RuleContext, RuleFinding } from '../utils/types.js';
+import { HTTP_METHODS } from '../utils/openapi.js';
+
+type Node = Record<string, unknown>;
+type Segments = Array<string | number>;
+
+interface DeclaredParameter {
+  param: Node;
+  segments: Segments;
+}
+
+const TEMPLATE = /\{[^}]*\}/g;
+
+/**
+ * Replace parameter names so templates that route the same compare equal,
+ * e.g. /users/{id} and /users/{name} both become /users/{}
+ */
+function normalizeTemplate(path: string): string[] {
+  return path.split('/').map(segment => segment.replace(TEMPLATE, '{}'));
+}
+
+/**
+ * Two paths overlap when every segment either matches or one side is a
+ * whole-segment template that would also capture the other side
+ */
+function overlaps(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((segment, i) => segment === b[i] || segment === '{}' || b[i] === '{}');
+}
+
+const pathTemplateConflict: LintRule = {
+  id: 'path-template-conflict',
+  description: 'Path templates must not differ only in their parameter names',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const seen = new Map<string, string>();
+
+    for (const path of Object.keys(api.paths ?? {})) {
+      const key = normalizeTemplate(path).join('/');
+      const first = seen.get(key);
+
+      if (first === undefined) {
+        seen.set(key, path);
+      } else {
+        findings.push({
+          message: `Path ${path} conflicts with ${first} - they differ only in parameter names`,
+          path: ['paths', path],
+          related: [['paths', first]],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const pathTemplateAmbiguous: LintRule = {
+  id: 'path-template-ambiguous',
+  description: 'Paths should not overlap so that one request can match several templates',
+  defaultSeverity: 'warn',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const paths = Object.keys(api.paths ?? {}).map(path => ({
+      path,
+      segments: normalizeTemplate(path),
+    }));
+
+    paths.forEach((current, index) => {
+      for (const earlier of paths.slice(0, index)) {
+        // Identical templates are reported by path-template-conflict
+        if (earlier.segments.join('/') === current.segments.join('/')) continue;
+
+        if (overlaps(earlier.segments, current.segments)) {
+          findings.push({
+            message: `Path ${current.path} is ambiguous with ${earlier.path} - a request can match both`,
+            path: ['paths', current.path],
+            related: [['paths', earlier.path]],
+          });
+        }
+      }
+    });
+
+    return findings;
+  },
+};
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function templateNames(path: string): string[] {
+  return [...path.matchAll(TEMPLATE)].map(match => match[0].slice(1, -1));
+}
+
+function pathParameters(parameters: unknown, segments: Segments): DeclaredParameter[] {
+  if (!Array.isArray(parameters)) return [];
+  return parameters
+    .map((param, index) => ({ param, segments: [...segments, index] }))
+    .filter(
+      (entry): entry is DeclaredParameter => isObject(entry.param) && entry.param.in === 'path'
+    );
+}
+
+/**
+ * Visit every path with its template variables, its own path parameters
+ * and the path parameters of each of its operations
+ */
+function forEachPath(
+  api: RuleContext['api'],
+  visit: (entry: {
+    path: string;
+    names: string[];
+    shared: DeclaredParameter[];
+    operations: Array<{ method: string; declared: DeclaredParameter[] }>;
+  }) => void
+): void {
+  for (const [path, pathItem] of Object.entries(api.paths ?? {})) {
+    if (!isObject(pathItem)) continue;
+
+    const operations = HTTP_METHODS.filter(method => isObject(pathItem[method])).map(method => ({
+      method,
+      declared: pathParameters((pathItem[method] as Node).parameters, [
+        'paths',
+        path,
+        method,
+        'parameters',
+      ]),
+    }));
+
+    visit({
+      path,
+      names: templateNames(path),
+      shared: pathParameters(pathItem.parameters, ['paths', path, 'parameters']),
+      operations,
+    });
+  }
+}
+
+/**
+ * The type of a parameter, from its schema (OpenAPI 3) or inline (Swagger 2.0)
+ */
+function describeType(param: Node): string {
+  const source = isObject(param.schema) ? param.schema : param;
+  return [source.type, source.format].filter(Boolean).map(String).join('/') || 'any';
+}
+
+const pathParamsDeclared: LintRule = {
+  id: 'path-params-declared',
+  description: 'Every path template variable must be declared as an `in: path` parameter',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+
+    forEachPath(api, ({ path, names, shared, operations }) => {
+      for (const { method, declared } of operations) {
+        const available = new Set([...shared, ...declared].map(({ param }) => param.name));
+        for (const name of names.filter(n => !available.has(n))) {
+          findings.push({
+            message: `Path variable {${name}} of ${method.toUpperCase()} ${path} has no matching path parameter`,
+            path: ['paths', path, method],
+          });
+        }
+      }
+    });
+
+    return findings;
+  },
+};
+
+const pathParamsUsed: LintRule = {
+  id: 'path-params-used',
+  description: 'Every declared path parameter must appear in the path template',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+
+    forEachPath(api, ({ path, names, shared, operations }) => {
+      const declared = [...shared, ...operations.flatMap(op => op.declared)];
+      for (const { param, segments } of declared) {
+        if (!names.includes(param.name as string)) {
+          findings.push({
+            message: `Path parameter "${String(param.name)}" does not appear in ${path}`,
+            path: [...segments, 'name'],
+          });
+        }
+      }
+    });
+
+    return findings;
+  },
+};
+
+const pathParamsRequired: LintRule = {
+  id: 'path-params-required',
+  description: 'Path parameters must be marked `required: true`',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+
+    forEachPath(api, ({ path, shared, operations }) => {
+      const declared = [...shared, ...operations.flatMap(op => op.declared)];
+      for (const { param, segments } of declared) {
+        if (param.required !== true) {
+          findings.push({
+            message: `Path parameter "${String(param.name)}" of ${path} must be required: true`,
+            path: segments,
+          });
+        }
+      }
+    });
+
+    return findings;
+  },
+};
+
+const pathParamsOverride: LintRule = {
+  id: 'path-params-override',
+  description: 'Operation-level path parameters should not contradict the path-level definition',
+  defaultSeverity: 'warn',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+
+    forEachPath(api, ({ path, shared, operations }) => {
+      for (const { method, declared } of operations) {
+        for (const { param, segments } of declared) {
+          const base = shared.find(entry => entry.param.name === param.name);
+          if (!base) continue;
+
+          const baseType = describeType(base.param);
+          const type = describeType(param);
+          if (baseType !== type) {
+            findings.push({
+              message: `${method.toUpperCase()} ${path} redefines path parameter "${String(param.name)}" as ${type}, but the path declares it as ${baseType}`,
+              path: segments,
+              related: [base.segments],
+            });
+          }
+        }
+      }
+    });
+
+    return findings;
+  },
+};
+
+export const pathRules: LintRule[] = [
+  pathTemplateConflict,
+  pathTemplateAmbiguous,
+  pathParamsDeclared,
+  pathParamsUsed,
+  pathParamsRequired,
+  pathParamsOverride,
+];
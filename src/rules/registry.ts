@@ -0,0 +1,117 @@
+import type { OpenAPI } from 'openapi-types';
+import type {
+  LintRule,
+  RuleSettings,
+  RuleSource,
+  RuleSeverity,
+  ValidationError,
+  ValidationWarning,
+} from '../utils/types.js';
+import { formatPath, toPointer } from '../utils/openapi.js';
+import { builtinRules } from './builtin.js';
+
+const SEVERITIES: readonly RuleSeverity[] = ['off', 'warn', 'error'];
+
+export function isRuleSeverity(value: unknown): value is RuleSeverity {
+  return typeof value === 'string' && (SEVERITIES as readonly string[]).includes(value);
+}
+
+export class RuleRegistry {
+  private rules = new Map<string, LintRule>();
+
+  constructor(rules: LintRule[] = builtinRules) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  register(rule: LintRule): void {
+    if (!rule.id) {
+      throw new Error('Rule is missing an id');
+    }
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Duplicate rule id: ${rule.id}`);
+    }
+    if (!isRuleSeverity(rule.defaultSeverity)) {
+      throw new Error(`Invalid default severity for rule ${rule.id}: ${rule.defaultSeverity}`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  get(id: string): LintRule | undefined {
+    return this.rules.get(id);
+  }
+
+  list(): LintRule[] {
+    return [...this.rules.values()];
+  }
+
+  /**
+   * Check that settings only name registered rules and valid severities
+   */
+  checkSettings(settings: RuleSettings): void {
+    for (const [id, setting] of Object.entries(settings)) {
+      if (!this.rules.has(id)) {
+        throw new Error(`Unknown rule: ${id}`);
+      }
+      const severity = Array.isArray(setting) ? setting[0] : setting;
+      if (!isRuleSeverity(severity)) {
+        throw new Error(`Invalid severity for rule ${id}: ${String(severity)}`);
+      }
+    }
+  }
+
+  /**
+   * Run every enabled rule against the dereferenced document.
+   * In strict mode rules configured as 'warn' are reported as errors.
+   * Rules that need the document as written read it from `source`.
+   */
+  run(
+    api: OpenAPI.Document,
+    settings: RuleSettings = {},
+    strict: boolean = false,
+    source: RuleSource = {}
+  ): { errors: ValidationError[]; warnings: ValidationWarning[] } {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    this.checkSettings(settings);
+
+    for (const rule of this.rules.values()) {
+      const { severity, options } = this.resolveSetting(rule, settings[rule.id]);
+      if (severity === 'off') continue;
+
+      for (const finding of rule.check({ api, options, ...source })) {
+        const issue = {
+          message: finding.message,
+          path: finding.path ? formatPath(finding.path) : undefined,
+          pointer: finding.path ? toPointer(finding.path) : undefined,
+          rule: rule.id,
+          ...(finding.related?.length
+            ? { related: finding.related.map(path => ({ pointer: toPointer(path) })) }
+            : {}),
+        };
+
+        if (severity === 'error') {
+          errors.push({ type: 'rule-violation', ...issue });
+        } else if (strict) {
+          errors.push({ type: 'warning-as-error', ...issue });
+        } else {
+          warnings.push(issue);
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  private resolveSetting(
+    rule: LintRule,
+    setting: RuleSettings[string] | undefined
+  ): { severity: RuleSeverity; options: Record<string, unknown> } {
+    if (setting === undefined) {
+      return { severity: rule.defaultSeverity, options: {} };
+    }
+
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+    return { severity, options: options ?? {} };
+  }
+}
@@ -0,0 +1,241 @@
+import type { LintRule, RuleContext, RuleFinding } from '../utils/types.js';
+import { getOperations, getSpecVersion } from '../utils/openapi.js';
+
+type Node = Record<string, unknown>;
+type Segments = Array<string | number>;
+
+const OAUTH_FLOWS = ['implicit', 'password', 'clientCredentials', 'authorizationCode'];
+
+// Schemes from the IANA HTTP Authentication Scheme Registry, compared case-insensitively
+const HTTP_SCHEMES = [
+  'basic',
+  'bearer',
+  'concealed',
+  'digest',
+  'dpop',
+  'gnap',
+  'hoba',
+  'mutual',
+  'negotiate',
+  'oauth',
+  'privatetoken',
+  'scram-sha-1',
+  'scram-sha-256',
+  'vapid',
+];
+
+interface SecurityRequirement {
+  requirement: Node;
+  segments: Segments;
+  label: string;
+}
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The security schemes of the document and where they live, from
+ * `components.securitySchemes` (OpenAPI 3) or `securityDefinitions` (Swagger 2.0)
+ */
+function getSchemes(api: RuleContext['api']): { schemes?: Node; container: string[] } {
+  const container =
+    getSpecVersion(api) === '2.0' ? ['securityDefinitions'] : ['components', 'securitySchemes'];
+  let node: unknown = api;
+  for (const segment of container) {
+    node = isObject(node) ? node[segment] : undefined;
+  }
+  return { schemes: isObject(node) ? node : undefined, container };
+}
+
+/**
+ * Every security requirement object, document-level first
+ */
+function getRequirements(api: RuleContext['api']): SecurityRequirement[] {
+  const requirements: SecurityRequirement[] = [];
+  const collect = (security: unknown, segments: Segments, label: string): void => {
+    if (!Array.isArray(security)) return;
+    security.forEach((requirement, index) => {
+      if (isObject(requirement)) {
+        requirements.push({ requirement, segments: [...segments, index], label });
+      }
+    });
+  };
+
+  collect((api as Node).security, ['security'], 'Document');
+  for (const { path, method, operation } of getOperations(api)) {
+    collect(
+      operation.security,
+      ['paths', path, method, 'security'],
+      `${method.toUpperCase()} ${path}`
+    );
+  }
+
+  return requirements;
+}
+
+/**
+ * The scopes an OAuth2 scheme declares, across all of its flows
+ */
+function declaredScopes(scheme: Node): Set<string> {
+  const scopes = new Set<string>();
+  const add = (source: unknown): void => {
+    if (isObject(source)) Object.keys(source).forEach(scope => scopes.add(scope));
+  };
+
+  // Swagger 2.0 declares scopes on the scheme itself
+  add(scheme.scopes);
+  if (isObject(scheme.flows)) {
+    for (const flow of OAUTH_FLOWS) {
+      const definition = scheme.flows[flow];
+      if (isObject(definition)) add(definition.scopes);
+    }
+  }
+
+  return scopes;
+}
+
+const securitySchemeExists: LintRule = {
+  id: 'security-scheme-exists',
+  description: 'Every security requirement must name a declared security scheme',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const { schemes } = getSchemes(api);
+
+    for (const { requirement, segments, label } of getRequirements(api)) {
+      // A document without any schemes is already reported by security-schemes-defined
+      if (!schemes && segments[0] === 'security') continue;
+
+      for (const name of Object.keys(requirement)) {
+        if (!schemes || !isObject(schemes[name])) {
+          findings.push({
+            message: `${label} requires security scheme "${name}", which is not declared`,
+            path: [...segments, name],
+          });
+        }
+      }
+    }
+
+    return findings;
+  },
+};
+
+const securityScopesDefined: LintRule = {
+  id: 'security-scopes-defined',
+  description: 'OAuth2 scopes used by security requirements must be declared by the scheme',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const { schemes, container } = getSchemes(api);
+    if (!schemes) return findings;
+
+    for (const { requirement, segments, label } of getRequirements(api)) {
+      for (const [name, scopes] of Object.entries(requirement)) {
+        const scheme = schemes[name];
+        if (!isObject(scheme) || scheme.type !== 'oauth2' || !Array.isArray(scopes)) continue;
+
+        const declared = declaredScopes(scheme);
+        scopes.forEach((scope, index) => {
+          if (!declared.has(scope)) {
+            findings.push({
+              message: `${label} requires scope "${String(scope)}", which security scheme "${name}" does not declare`,
+              path: [...segments, name, index],
+              related: [[...container, name]],
+            });
+          }
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+const securitySchemeValid: LintRule = {
+  id: 'security-scheme-valid',
+  description: 'apiKey schemes need a valid `in` and `name`, http schemes a registered `scheme`',
+  defaultSeverity: 'error',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const { schemes, container } = getSchemes(api);
+    if (!schemes) return findings;
+
+    // Swagger 2.0 API keys cannot be sent as cookies
+    const apiKeyLocations =
+      getSpecVersion(api) === '2.0' ? ['query', 'header'] : ['query', 'header', 'cookie'];
+
+    for (const [name, scheme] of Object.entries(schemes)) {
+      if (!isObject(scheme)) continue;
+      const path = [...container, name];
+
+      if (scheme.type === 'apiKey') {
+        if (typeof scheme.in !== 'string' || !apiKeyLocations.includes(scheme.in)) {
+          findings.push({
+            message: `apiKey security scheme "${name}" must set in to one of ${apiKeyLocations.join(', ')}`,
+            path: [...path, 'in'],
+          });
+        }
+        if (typeof scheme.name !== 'string' || scheme.name.trim() === '') {
+          findings.push({
+            message: `apiKey security scheme "${name}" must set the name of its ${scheme.in ?? 'key'}`,
+            path: [...path, 'name'],
+          });
+        }
+      } else if (scheme.type === 'http') {
+        if (typeof scheme.scheme !== 'string') {
+          findings.push({
+            message: `http security scheme "${name}" must set a scheme such as basic or bearer`,
+            path,
+          });
+        } else if (!HTTP_SCHEMES.includes(scheme.scheme.toLowerCase())) {
+          findings.push({
+            message: `http security scheme "${name}" uses unknown scheme "${scheme.scheme}"`,
+            path: [...path, 'scheme'],
+          });
+        }
+      }
+    }
+
+    return findings;
+  },
+};
+
+const operationSecurityDefined: LintRule = {
+  id: 'operation-security-defined',
+  description: 'Every operation should require authentication',
+  defaultSeverity: 'off',
+  check({ api }: RuleContext) {
+    const findings: RuleFinding[] = [];
+    const documentSecurity = (api as Node).security;
+
+    for (const { path, method, operation } of getOperations(api)) {
+      const security = operation.security ?? documentSecurity;
+      const label = `${method.toUpperCase()} ${path}`;
+
+      if (!Array.isArray(security) || security.length === 0) {
+        findings.push({
+          message: `${label} has no security requirements`,
+          path: ['paths', path, method],
+        });
+      } else if (
+        security.some(requirement => isObject(requirement) && Object.keys(requirement).length === 0)
+      ) {
+        // An empty requirement object makes authentication optional
+        findings.push({
+          message: `${label} allows unauthenticated access`,
+          path: ['paths', path, method],
+        });
+      }
+    }
+
+    return findings;
+  },
+};
+
+export const securityRules: LintRule[] = [
+  securitySchemeExists,
+  securityScopesDefined,
+  securitySchemeValid,
+  operationSecurityDefined,
+];
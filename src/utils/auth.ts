@@ -0,0 +1,255 @@
+import axios from 'axios';
+import type { OpenAPIV3 } from 'openapi-types';
+import type { AuthCredentials } from './types.js';
+
+type SecurityScheme = OpenAPIV3.SecuritySchemeObject;
+
+export interface AuthOptions {
+  /** Relative token URLs resolve against this */
+  baseUrl: string;
+  timeout: number;
+  /** Credentials per scheme name, from the config file */
+  credentials?: Record<string, AuthCredentials>;
+  env?: NodeJS.ProcessEnv;
+}
+
+/** What authenticating a request adds to it */
+export interface AuthResult {
+  headers: Record<string, string>;
+  params: Record<string, string>;
+}
+
+interface AccessToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface TokenGrant {
+  grantType: 'client_credentials' | 'password';
+  tokenUrl: string;
+}
+
+// Environment variable suffix for each credential field
+const ENV_FIELDS: Record<keyof AuthCredentials, string> = {
+  token: 'TOKEN',
+  username: 'USERNAME',
+  password: 'PASSWORD',
+  value: 'VALUE',
+  clientId: 'CLIENT_ID',
+  clientSecret: 'CLIENT_SECRET',
+};
+
+// Cached access tokens are renewed this long before they expire
+const EXPIRY_MARGIN_MS = 30_000;
+
+/**
+ * Prefix of the environment variables holding credentials for a scheme,
+ * e.g. OPENAPI_AUTH_BEARER_AUTH_ for `bearerAuth`
+ */
+export function authEnvPrefix(schemeName: string): string {
+  const name = schemeName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase();
+  return `OPENAPI_AUTH_${name}_`;
+}
+
+/**
+ * Authenticates requests with the security schemes an operation declares.
+ * Credentials come from the config file, overridden by environment
+ * variables. OAuth2 access tokens are fetched from the scheme's tokenUrl and
+ * cached until shortly before they expire.
+ */
+export class AuthProvider {
+  private schemes: Record<string, SecurityScheme>;
+  private options: AuthOptions;
+  private tokens = new Map<string, Promise<AccessToken>>();
+
+  constructor(schemes: Record<string, SecurityScheme> = {}, options: AuthOptions) {
+    this.schemes = schemes;
+    this.options = options;
+  }
+
+  /**
+   * Credentials for the first security requirement that can be met in full.
+   * Operations without security, or whose requirements cannot be met, are
+   * sent as they are.
+   */
+  async authenticate(
+    security: OpenAPIV3.SecurityRequirementObject[] | undefined
+  ): Promise<AuthResult> {
+    const result: AuthResult = { headers: {}, params: {} };
+
+    const requirement = security?.find(
+      req => Object.keys(req).length > 0 && Object.keys(req).every(name => this.canApply(name))
+    );
+    if (!requirement) return result;
+
+    for (const [name, scopes] of Object.entries(requirement)) {
+      await this.apply(name, scopes, result);
+    }
+    return result;
+  }
+
+  private credentialsFor(name: string): AuthCredentials {
+    const credentials: AuthCredentials = { ...this.options.credentials?.[name] };
+    const env = this.options.env ?? process.env;
+    const prefix = authEnvPrefix(name);
+
+    for (const [field, suffix] of Object.entries(ENV_FIELDS)) {
+      const value = env[prefix + suffix];
+      if (value !== undefined) credentials[field as keyof AuthCredentials] = value;
+    }
+    return credentials;
+  }
+
+  private canApply(name: string): boolean {
+    const scheme = this.schemes[name];
+    if (!scheme) return false;
+
+    const credentials = this.credentialsFor(name);
+    switch (scheme.type) {
+      case 'http':
+        return scheme.scheme.toLowerCase() === 'basic'
+          ? credentials.username !== undefined
+          : credentials.token !== undefined;
+      case 'apiKey':
+        return credentials.value !== undefined;
+      case 'oauth2':
+        return (
+          credentials.token !== undefined || this.tokenGrant(scheme, credentials) !== undefined
+        );
+      default:
+        return credentials.token !== undefined;
+    }
+  }
+
+  private async apply(name: string, scopes: string[], result: AuthResult): Promise<void> {
+    const scheme = this.schemes[name];
+    const credentials = this.credentialsFor(name);
+
+    switch (scheme.type) {
+      case 'http': {
+        const type = scheme.scheme.toLowerCase();
+        if (type === 'basic') {
+          const pair = `${credentials.username}:${credentials.password ?? ''}`;
+          result.headers.Authorization = `Basic ${Buffer.from(pair).toString('base64')}`;
+        } else {
+          const label = type === 'bearer' ? 'Bearer' : scheme.scheme;
+          result.headers.Authorization = `${label} ${credentials.token}`;
+        }
+        return;
+      }
+      case 'apiKey': {
+        const value = credentials.value as string;
+        if (scheme.in === 'query') {
+          result.params[scheme.name] = value;
+        } else if (scheme.in === 'cookie') {
+          const cookie = `${scheme.name}=${value}`;
+          const existing = result.headers.Cookie;
+          result.headers.Cookie = existing ? `${existing}; ${cookie}` : cookie;
+        } else {
+          result.headers[scheme.name] = value;
+        }
+        return;
+      }
+      case 'oauth2': {
+        const token =
+          credentials.token ?? (await this.accessToken(name, scheme, scopes, credentials));
+        result.headers.Authorization = `Bearer ${token}`;
+        return;
+      }
+      default:
+        result.headers.Authorization = `Bearer ${credentials.token}`;
+    }
+  }
+
+  /**
+   * The password flow is used when a username is configured, otherwise the
+   * client-credentials flow
+   */
+  private tokenGrant(
+    scheme: OpenAPIV3.OAuth2SecurityScheme,
+    credentials: AuthCredentials
+  ): TokenGrant | undefined {
+    const { password, clientCredentials } = scheme.flows;
+    if (password && credentials.username !== undefined) {
+      return { grantType: 'password', tokenUrl: password.tokenUrl };
+    }
+    if (clientCredentials && credentials.clientId !== undefined) {
+      return { grantType: 'client_credentials', tokenUrl: clientCredentials.tokenUrl };
+    }
+    return undefined;
+  }
+
+  private async accessToken(
+    name: string,
+    scheme: OpenAPIV3.OAuth2SecurityScheme,
+    scopes: string[],
+    credentials: AuthCredentials
+  ): Promise<string> {
+    const key = `${name} ${[...scopes].sort().join(' ')}`;
+    const cached = this.tokens.get(key);
+
+    if (cached) {
+      const { token, expiresAt } = await cached;
+      if (expiresAt > Date.now()) return token;
+      // Another request may have started renewing it while this one waited
+      if (this.tokens.get(key) !== cached) {
+        return this.accessToken(name, scheme, scopes, credentials);
+      }
+    }
+
+    const pending = this.requestToken(
+      this.tokenGrant(scheme, credentials) as TokenGrant,
+      scopes,
+      credentials
+    );
+    this.tokens.set(key, pending);
+    pending.catch(() => this.tokens.delete(key));
+    return (await pending).token;
+  }
+
+  private async requestToken(
+    { grantType, tokenUrl }: TokenGrant,
+    scopes: string[],
+    credentials: AuthCredentials
+  ): Promise<AccessToken> {
+    const url = new URL(tokenUrl, this.options.baseUrl).toString();
+    const body = new URLSearchParams({ grant_type: grantType });
+    if (grantType === 'password') {
+      body.set('username', credentials.username ?? '');
+      body.set('password', credentials.password ?? '');
+    }
+    if (credentials.clientId !== undefined) body.set('client_id', credentials.clientId);
+    if (credentials.clientSecret !== undefined) {
+      body.set('client_secret', credentials.clientSecret);
+    }
+    if (scopes.length > 0) body.set('scope', scopes.join(' '));
+
+    const response = await axios({
+      method: 'post',
+      url,
+      data: body.toString(),
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      timeout: this.options.timeout,
+      validateStatus: () => true,
+    });
+
+    const data = (response.data ?? {}) as Record<string, unknown>;
+    if (response.status >= 400 || typeof data.access_token !== 'string') {
+      const reason = typeof data.error === 'string' ? `: ${data.error}` : '';
+      throw new Error(`Token request to ${url} failed with status ${response.status}${reason}`);
+    }
+
+    const lifetime = Number(data.expires_in) * 1000;
+    const expiresAt =
+      lifetime > 0
+        ? Date.now() + lifetime - Math.min(EXPIRY_MARGIN_MS, lifetime / 2)
+        : Number.POSITIVE_INFINITY;
+    return { token: data.access_token, expiresAt };
+  }
+}
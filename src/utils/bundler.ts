@@ -0,0 +1,346 @@
+import { basename, dirname, extname, resolve } from 'path';
+import SwaggerParser from '@apidevtools/swagger-parser';
+import type { OpenAPI } from 'openapi-types';
+import { loadSpec } from './loader.js';
+import { getAtPath, parsePointer } from './openapi.js';
+import type { BundleResult } from './types.js';
+
+type Segments = Array<string | number>;
+
+const COMPONENT_TYPES = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'pathItems',
+];
+
+// Swagger 2.0 keeps reusable objects at the top level
+const SWAGGER_COMPONENT_TYPES: Record<string, string> = {
+  schemas: 'definitions',
+  parameters: 'parameters',
+  responses: 'responses',
+};
+
+function isRemoteRef(ref: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(ref);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Combines a multi-file spec into one document. Content reached through
+ * external $refs is hoisted into components (or definitions for Swagger 2.0)
+ * and referenced internally instead of being inlined at every use.
+ */
+export class SpecBundler {
+  private files = new Map<string, unknown>();
+  private hoisted = new Map<string, string>();
+  private components: Record<string, Record<string, unknown>> = {};
+  private reservedNames = new Set<string>();
+  private entryFile = '';
+  private isSwagger = false;
+
+  async bundle(entryPath: string, options: { dereference?: boolean } = {}): Promise<BundleResult> {
+    this.files.clear();
+    this.hoisted.clear();
+    this.components = {};
+    this.reservedNames.clear();
+    this.entryFile = resolve(entryPath);
+
+    const entry = await this.loadFile(this.entryFile);
+    if (!isObject(entry)) {
+      throw new Error(`Spec is not an object: ${entryPath}`);
+    }
+
+    this.isSwagger = 'swagger' in entry;
+    this.reserveExistingNames(entry);
+    this.registerComponentSlots(entry);
+
+    const document = (await this.processNode(entry, this.entryFile, [])) as Record<string, unknown>;
+    this.mergeComponents(document);
+
+    const cycles = findCycles(document, this.isSwagger);
+
+    if (options.dereference) {
+      // Circular references cannot be inlined and are left as internal $refs
+      const dereferenced = await SwaggerParser.dereference(document as unknown as OpenAPI.Document, {
+        dereference: { circular: 'ignore' },
+      });
+      return { document: toPlainObject(dereferenced) as Record<string, unknown>, cycles };
+    }
+
+    return { document, cycles };
+  }
+
+  private async loadFile(file: string): Promise<unknown> {
+    if (!this.files.has(file)) {
+      this.files.set(file, await loadSpec(file));
+    }
+    return this.files.get(file);
+  }
+
+  private reserveExistingNames(entry: Record<string, unknown>): void {
+    for (const type of COMPONENT_TYPES) {
+      const container = this.containerFor(entry, type);
+      if (isObject(container)) {
+        Object.keys(container).forEach(name => this.reservedNames.add(`${type}/${name}`));
+      }
+    }
+  }
+
+  /**
+   * Components defined as external $refs keep their own name, so every
+   * other use of the same target points at them
+   */
+  private registerComponentSlots(entry: Record<string, unknown>): void {
+    for (const type of COMPONENT_TYPES) {
+      const container = this.containerFor(entry, type);
+      if (!isObject(container)) continue;
+
+      for (const [name, value] of Object.entries(container)) {
+        if (!isObject(value) || typeof value.$ref !== 'string') continue;
+
+        const [refFile, fragment = ''] = value.$ref.split('#');
+        if (!refFile || isRemoteRef(value.$ref)) continue;
+
+        const key = `${resolve(dirname(this.entryFile), refFile)}#${fragment}`;
+        this.hoisted.set(key, `${this.refPrefix(type)}/${name}`);
+      }
+    }
+  }
+
+  private containerFor(doc: Record<string, unknown>, type: string): unknown {
+    if (this.isSwagger) {
+      const key = SWAGGER_COMPONENT_TYPES[type];
+      return key ? doc[key] : undefined;
+    }
+    return isObject(doc.components) ? doc.components[type] : undefined;
+  }
+
+  private refPrefix(type: string): string {
+    return this.isSwagger ? `#/${SWAGGER_COMPONENT_TYPES[type]}` : `#/components/${type}`;
+  }
+
+  private async processNode(node: unknown, file: string, segments: Segments): Promise<unknown> {
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (let i = 0; i < node.length; i++) {
+        items.push(await this.processNode(node[i], file, [...segments, i]));
+      }
+      return items;
+    }
+
+    if (!isObject(node)) return node;
+
+    if (typeof node.$ref === 'string') {
+      return this.processRef(node, file, segments);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = await this.processNode(value, file, [...segments, key]);
+    }
+    return result;
+  }
+
+  private async processRef(
+    node: Record<string, unknown>,
+    file: string,
+    segments: Segments
+  ): Promise<unknown> {
+    const ref = node.$ref as string;
+    const [refFile, fragment = ''] = ref.split('#');
+
+    // Remote refs and internal refs of the entry file stay as they are
+    if (isRemoteRef(ref) || (!refFile && file === this.entryFile)) {
+      return { ...node };
+    }
+
+    const targetFile = refFile ? resolve(dirname(file), refFile) : file;
+    const key = `${targetFile}#${fragment}`;
+    const siblings = Object.fromEntries(Object.entries(node).filter(([k]) => k !== '$ref'));
+
+    // A $ref that is itself a component definition is inlined in place
+    const slot = file === this.entryFile ? this.componentSlot(segments) : undefined;
+
+    const existing = this.hoisted.get(key);
+    if (existing && !slot) {
+      return { ...siblings, $ref: existing };
+    }
+
+    if (targetFile === this.entryFile) {
+      // An external file pointing back into the entry document
+      return { ...siblings, $ref: `#${fragment}` };
+    }
+
+    const target = getAtPath(await this.loadFile(targetFile), parsePointer(`#${fragment}`));
+    if (target === undefined) {
+      throw new Error(`Cannot resolve $ref "${ref}" in ${file}`);
+    }
+
+    if (slot) {
+      return this.processNode(target, targetFile, segments);
+    }
+
+    const type = this.inferComponentType(segments, fragment);
+    if (!type || (this.isSwagger && !SWAGGER_COMPONENT_TYPES[type])) {
+      // Path items and other objects without a component slot are inlined
+      return this.processNode(target, targetFile, segments);
+    }
+
+    const name = this.uniqueName(type, this.componentName(targetFile, fragment));
+    const newRef = `${this.refPrefix(type)}/${name}`;
+    this.hoisted.set(key, newRef);
+
+    this.components[type] = this.components[type] ?? {};
+    this.components[type][name] = await this.processNode(target, targetFile, [
+      'components',
+      type,
+      name,
+    ]);
+
+    return { ...siblings, $ref: newRef };
+  }
+
+  private componentSlot(segments: Segments): { type: string; name: string } | undefined {
+    if (this.isSwagger) {
+      const type = Object.keys(SWAGGER_COMPONENT_TYPES).find(
+        t => SWAGGER_COMPONENT_TYPES[t] === segments[0]
+      );
+      if (type && segments.length === 2) return { type, name: String(segments[1]) };
+      return undefined;
+    }
+
+    if (segments.length === 3 && segments[0] === 'components') {
+      return { type: String(segments[1]), name: String(segments[2]) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Pick a component type from the target pointer when it names one,
+   * otherwise from where the $ref is used
+   */
+  private inferComponentType(segments: Segments, fragment: string): string | undefined {
+    const targetSegments = parsePointer(`#${fragment}`);
+    if (targetSegments[0] === 'components' && COMPONENT_TYPES.includes(targetSegments[1])) {
+      return targetSegments[1];
+    }
+    if (targetSegments[0] === 'definitions') return 'schemas';
+
+    const parent = segments[segments.length - 2];
+    const last = segments[segments.length - 1];
+
+    if (parent === 'paths') return undefined;
+    if (parent === 'parameters' && typeof last === 'number') return 'parameters';
+    if (last === 'requestBody') return 'requestBodies';
+    if (parent === 'responses' && segments[segments.length - 3] !== 'components') return 'responses';
+    if (parent === 'headers') return 'headers';
+    if (parent === 'examples') return 'examples';
+    if (parent === 'links') return 'links';
+    if (parent === 'callbacks') return 'callbacks';
+    if (parent === 'securitySchemes') return 'securitySchemes';
+    return 'schemas';
+  }
+
+  private componentName(targetFile: string, fragment: string): string {
+    const targetSegments = parsePointer(`#${fragment}`);
+    const raw = targetSegments.length
+      ? targetSegments[targetSegments.length - 1]
+      : basename(targetFile, extname(targetFile));
+
+    const name = raw.replace(/[^A-Za-z0-9._-]/g, '_');
+    return name || 'Component';
+  }
+
+  private uniqueName(type: string, name: string): string {
+    let candidate = name;
+    let counter = 2;
+    while (this.reservedNames.has(`${type}/${candidate}`)) {
+      candidate = `${name}${counter++}`;
+    }
+    this.reservedNames.add(`${type}/${candidate}`);
+    return candidate;
+  }
+
+  private mergeComponents(document: Record<string, unknown>): void {
+    for (const [type, entries] of Object.entries(this.components)) {
+      if (this.isSwagger) {
+        const key = SWAGGER_COMPONENT_TYPES[type];
+        document[key] = { ...(document[key] as Record<string, unknown>), ...entries };
+      } else {
+        const components = (document.components ?? {}) as Record<string, unknown>;
+        components[type] = { ...(components[type] as Record<string, unknown>), ...entries };
+        document.components = components;
+      }
+    }
+  }
+}
+
+/**
+ * Find reference cycles between components, e.g. schemas/Node -> schemas/Node
+ */
+export function findCycles(document: Record<string, unknown>, isSwagger: boolean): string[] {
+  const graph = new Map<string, Set<string>>();
+  const containers: Array<[string, unknown]> = isSwagger
+    ? Object.values(SWAGGER_COMPONENT_TYPES).map(key => [key, document[key]])
+    : COMPONENT_TYPES.map(type => [
+        `components/${type}`,
+        isObject(document.components) ? document.components[type] : undefined,
+      ]);
+
+  for (const [prefix, container] of containers) {
+    if (!isObject(container)) continue;
+    for (const [name, value] of Object.entries(container)) {
+      graph.set(`${prefix}/${name}`, collectInternalRefs(value));
+    }
+  }
+
+  const cycles = new Set<string>();
+  const stack: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (node: string): void => {
+    const index = stack.indexOf(node);
+    if (index !== -1) {
+      const cycle = [...stack.slice(index), node].map(n => n.replace(/^components\//, ''));
+      cycles.add(cycle.join(' -> '));
+      return;
+    }
+    if (done.has(node)) return;
+
+    stack.push(node);
+    for (const next of graph.get(node) ?? []) {
+      if (graph.has(next)) visit(next);
+    }
+    stack.pop();
+    done.add(node);
+  };
+
+  [...graph.keys()].forEach(visit);
+  return [...cycles];
+}
+
+function collectInternalRefs(node: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectInternalRefs(item, refs));
+  } else if (isObject(node)) {
+    if (typeof node.$ref === 'string' && node.$ref.startsWith('#/')) {
+      refs.add(parsePointer(node.$ref).join('/'));
+    }
+    Object.values(node).forEach(value => collectInternalRefs(value, refs));
+  }
+  return refs;
+}
+
+function toPlainObject(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
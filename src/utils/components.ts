@@ -0,0 +1,201 @@
+import { getSpecVersion, parsePointer } from './openapi.js';
+
+type Node = Record<string, unknown>;
+
+/**
+ * A reusable object that nothing outside the unused components refers to
+ */
+export interface UnusedComponent {
+  type: ComponentType;
+  name: string;
+  path: string[];
+}
+
+export type ComponentType =
+  | 'schemas'
+  | 'parameters'
+  | 'responses'
+  | 'requestBodies'
+  | 'headers'
+  | 'securitySchemes'
+  | 'examples';
+
+const COMPONENT_TYPES: ComponentType[] = [
+  'schemas',
+  'parameters',
+  'responses',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'examples',
+];
+
+// Swagger 2.0 keeps reusable objects at the top level
+const SWAGGER_CONTAINERS: Partial<Record<ComponentType, string>> = {
+  schemas: 'definitions',
+  parameters: 'parameters',
+  responses: 'responses',
+  securitySchemes: 'securityDefinitions',
+};
+
+const COMPONENT_LABELS: Record<ComponentType, string> = {
+  schemas: 'schema',
+  parameters: 'parameter',
+  responses: 'response',
+  requestBodies: 'request body',
+  headers: 'header',
+  securitySchemes: 'security scheme',
+  examples: 'example',
+};
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function describeComponent({ type, name }: UnusedComponent): string {
+  return `Unused ${COMPONENT_LABELS[type]} "${name}"`;
+}
+
+/**
+ * Where each component type lives in the document, as path segments
+ */
+function containerPaths(document: Node): Array<[ComponentType, string[]]> {
+  if (getSpecVersion(document) === '2.0') {
+    return Object.entries(SWAGGER_CONTAINERS).map(([type, key]) => [
+      type as ComponentType,
+      [key as string],
+    ]);
+  }
+  return COMPONENT_TYPES.map(type => [type, ['components', type]]);
+}
+
+function getContainer(document: Node, path: string[]): Node | undefined {
+  let node: unknown = document;
+  for (const segment of path) {
+    node = isObject(node) ? node[segment] : undefined;
+  }
+  return isObject(node) ? node : undefined;
+}
+
+/**
+ * Find components that are never referenced, directly or through other
+ * used components, from the rest of a document with its $refs intact.
+ * Components only referenced by other unused components count as unused.
+ * `externalRefs` are refs into the document made by other files of a
+ * multi-file spec; they are treated as used.
+ */
+export function findUnusedComponents(
+  document: unknown,
+  externalRefs: string[] = []
+): UnusedComponent[] {
+  if (!isObject(document)) return [];
+
+  const containers = containerPaths(document);
+  const components = new Map<
+    string,
+    { type: ComponentType; name: string; path: string[]; node: unknown }
+  >();
+
+  for (const [type, containerPath] of containers) {
+    const container = getContainer(document, containerPath);
+    if (!container) continue;
+    for (const [name, node] of Object.entries(container)) {
+      const path = [...containerPath, name];
+      components.set(path.join('/'), { type, name, path, node });
+    }
+  }
+
+  // Map a ref or security requirement to the component key it uses
+  const schemeContainer = containers.find(([type]) => type === 'securitySchemes')?.[1] ?? [];
+  const keyForRef = (ref: string): string | undefined => {
+    if (!ref.startsWith('#')) return undefined;
+    const segments = parsePointer(ref);
+    for (const [, containerPath] of containers) {
+      const length = containerPath.length;
+      if (containerPath.every((segment, i) => segments[i] === segment) && segments[length]) {
+        return [...containerPath, segments[length]].join('/');
+      }
+    }
+    return undefined;
+  };
+  const keyForScheme = (name: string): string => [...schemeContainer, name].join('/');
+
+  const used = new Set<string>();
+  const queue: string[] = [];
+  const markUsed = (key: string | undefined): void => {
+    if (key && components.has(key) && !used.has(key)) {
+      used.add(key);
+      queue.push(key);
+    }
+  };
+
+  const visit = (node: unknown, skipComponents: boolean, path: string[]): void => {
+    if (Array.isArray(node)) {
+      node.forEach(item => visit(item, skipComponents, path));
+      return;
+    }
+    if (!isObject(node)) return;
+
+    if (typeof node.$ref === 'string') markUsed(keyForRef(node.$ref));
+
+    for (const [key, value] of Object.entries(node)) {
+      const childPath = [...path, key];
+      if (skipComponents && components.has(childPath.join('/'))) continue;
+
+      if (key === 'security' && Array.isArray(value)) {
+        for (const requirement of value) {
+          if (!isObject(requirement)) continue;
+          Object.keys(requirement).forEach(name => markUsed(keyForScheme(name)));
+        }
+      } else if (key === 'discriminator' && isObject(value) && isObject(value.mapping)) {
+        for (const target of Object.values(value.mapping)) {
+          if (typeof target !== 'string') continue;
+          markUsed(keyForRef(target) ?? keyForRef(`#/components/schemas/${target}`));
+        }
+      }
+
+      visit(value, skipComponents, childPath);
+    }
+  };
+
+  // Everything outside the analysed components is a root, as are external refs
+  visit(document, true, []);
+  externalRefs.forEach(ref => markUsed(keyForRef(ref)));
+
+  while (queue.length > 0) {
+    const key = queue.shift() as string;
+    const component = components.get(key);
+    if (component) visit(component.node, false, component.path);
+  }
+
+  return [...components.entries()]
+    .filter(([key]) => !used.has(key))
+    .map(([, { type, name, path }]) => ({ type, name, path }));
+}
+
+/**
+ * Return a copy of the document without the given components. Containers
+ * left empty are removed as well.
+ */
+export function pruneComponents(document: unknown, unused: UnusedComponent[]): unknown {
+  const pruned = JSON.parse(JSON.stringify(document)) as Node;
+
+  for (const { path } of unused) {
+    const container = getContainer(pruned, path.slice(0, -1));
+    if (container) delete container[path[path.length - 1]];
+  }
+
+  for (const [, containerPath] of containerPaths(pruned)) {
+    const container = getContainer(pruned, containerPath);
+    if (container && Object.keys(container).length === 0) {
+      const parent = getContainer(pruned, containerPath.slice(0, -1));
+      if (parent) delete parent[containerPath[containerPath.length - 1]];
+    }
+  }
+
+  if (isObject(pruned.components) && Object.keys(pruned.components).length === 0) {
+    delete pruned.components;
+  }
+
+  return pruned;
+}
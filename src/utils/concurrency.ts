@@ -0,0 +1,71 @@
+/**
+ * Map items through an async function with at most `limit` calls in
+ * flight. Results keep the order of the input.
+ *
+ * Items for which `exclusive` returns true run on their own: they wait for
+ * everything in flight to settle, and nothing else starts until they finish.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  exclusive: (item: T) => boolean = () => false
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const running = new Set<Promise<void>>();
+  const slots = Math.max(1, limit);
+
+  for (let index = 0; index < items.length; index++) {
+    const item = items[index];
+    const alone = exclusive(item);
+
+    if (alone) await Promise.all(running);
+    while (running.size >= slots) await Promise.race(running);
+
+    const task: Promise<void> = fn(item, index)
+      .then(result => {
+        results[index] = result;
+      })
+      .finally(() => running.delete(task));
+    running.add(task);
+    // Failures surface through the awaits; this keeps a second one from going unhandled
+    task.catch(() => undefined);
+
+    if (alone) await task;
+  }
+
+  await Promise.all(running);
+  return results;
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Spaces calls evenly so no more than `perSecond` start in any second,
+ * however many callers share the limiter
+ */
+export class RateLimiter {
+  private interval: number;
+  private next = 0;
+
+  constructor(perSecond: number) {
+    this.interval = 1000 / perSecond;
+  }
+
+  /**
+   * Claim the next start. Returns nothing when the caller may start right
+   * away, so it does not yield to other work before starting; otherwise a
+   * promise that resolves once its turn has been claimed.
+   */
+  acquire(): Promise<void> | undefined {
+    const now = performance.now();
+    if (now >= this.next) {
+      this.next = now + this.interval;
+      return undefined;
+    }
+    // Waiters woken together race for the slot, and the others wait again
+    return delay(this.next - now).then(() => this.acquire());
+  }
+}
@@ -0,0 +1,189 @@
+import { readFile, access } from 'fs/promises';
+import { dirname, join, resolve, isAbsolute } from 'path';
+import yaml from 'js-yaml';
+import { isJsonFile } from './loader.js';
+import { isRuleSeverity } from '../rules/registry.js';
+import type { ValidatorConfig } from './types.js';
+
+export const CONFIG_FILE_NAMES = [
+  '.openapi-validator.json',
+  '.openapi-validator.yaml',
+  '.openapi-validator.yml',
+  'openapi-validator.config.json',
+  'openapi-validator.config.yaml',
+  'openapi-validator.config.yml',
+];
+
+export interface LoadedConfig {
+  config: ValidatorConfig;
+  configPath?: string;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Walk up from the start directory and return the first config file found
+ */
+export async function findConfigFile(startDir: string = process.cwd()): Promise<string | undefined> {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (await exists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Load the project configuration, either from an explicit path or by
+ * searching upwards from the working directory. Relative paths inside the
+ * file are resolved against the directory that contains it.
+ */
+export async function loadConfig(
+  explicitPath?: string,
+  cwd: string = process.cwd()
+): Promise<LoadedConfig> {
+  const configPath = explicitPath ? resolve(cwd, explicitPath) : await findConfigFile(cwd);
+
+  if (!configPath) {
+    return { config: {} };
+  }
+
+  let content: string;
+  try {
+    content = await readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = isJsonFile(configPath) ? JSON.parse(content) : yaml.load(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse config file ${configPath}: ${message}`);
+  }
+
+  const config = validateConfig(raw ?? {}, configPath);
+  const baseDir = dirname(configPath);
+
+  if (config.spec) {
+    config.spec = resolveRelative(baseDir, config.spec);
+  }
+  if (config.customRules) {
+    config.customRules = config.customRules.map(p => resolveRelative(baseDir, p));
+  }
+
+  return { config, configPath };
+}
+
+function resolveRelative(baseDir: string, filePath: string): string {
+  return isAbsolute(filePath) ? filePath : join(baseDir, filePath);
+}
+
+function validateConfig(raw: unknown, configPath: string): ValidatorConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config file ${configPath}: ${message}`);
+  };
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    fail('expected an object');
+  }
+
+  const config = raw as Record<string, unknown>;
+
+  for (const key of ['spec', 'baseUrl'] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      fail(`"${key}" must be a string`);
+    }
+  }
+
+  for (const key of ['timeout', 'retryDelay', 'maxRetryWait', 'rate'] as const) {
+    if (config[key] !== undefined && typeof config[key] !== 'number') {
+      fail(`"${key}" must be a number`);
+    }
+  }
+
+  if (
+    config.concurrency !== undefined &&
+    (!Number.isInteger(config.concurrency) || (config.concurrency as number) < 1)
+  ) {
+    fail('"concurrency" must be a positive integer');
+  }
+
+  if (
+    config.retries !== undefined &&
+    (!Number.isInteger(config.retries) || (config.retries as number) < 0)
+  ) {
+    fail('"retries" must be a non-negative integer');
+  }
+
+  if (config.strict !== undefined && typeof config.strict !== 'boolean') {
+    fail('"strict" must be a boolean');
+  }
+
+  if (config.headers !== undefined) {
+    const headers = config.headers;
+    if (
+      typeof headers !== 'object' ||
+      headers === null ||
+      Array.isArray(headers) ||
+      Object.values(headers).some(v => typeof v !== 'string')
+    ) {
+      fail('"headers" must be a map of strings');
+    }
+  }
+
+  for (const key of ['endpoints', 'serial', 'customRules'] as const) {
+    const value = config[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+      fail(`"${key}" must be a list of strings`);
+    }
+  }
+
+  if (config.auth !== undefined) {
+    const isMap = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+
+    if (
+      !isMap(config.auth) ||
+      Object.values(config.auth).some(
+        credentials =>
+          !isMap(credentials) || Object.values(credentials).some(v => typeof v !== 'string')
+      )
+    ) {
+      fail('"auth" must map security scheme names to credentials');
+    }
+  }
+
+  if (config.rules !== undefined) {
+    if (typeof config.rules !== 'object' || config.rules === null || Array.isArray(config.rules)) {
+      fail('"rules" must be a map of rule ids to severities');
+    }
+    for (const [id, setting] of Object.entries(config.rules as Record<string, unknown>)) {
+      const severity = Array.isArray(setting) ? setting[0] : setting;
+      if (!isRuleSeverity(severity)) {
+        fail(`"rules.${id}" must be off, warn or error`);
+      }
+    }
+  }
+
+  return { ...config } as ValidatorConfig;
+}
@@ -0,0 +1,239 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import {
+  convertParameter,
+  convertPaths,
+  convertResponse,
+  convertSecurityScheme,
+} from './swagger2.js';
+
+type Node = Record<string, unknown>;
+
+export type ConvertTarget = '3.0' | '3.1';
+
+export const CONVERT_TARGETS: ConvertTarget[] = ['3.0', '3.1'];
+
+const TARGET_VERSIONS: Record<ConvertTarget, string> = {
+  '3.0': '3.0.3',
+  '3.1': '3.1.0',
+};
+
+// Where objects referenced from Swagger 2.0 live in OpenAPI 3
+const REF_PREFIXES: Array<[string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+// Values that hold user data rather than spec objects
+const EXAMPLE_KEYS = ['example', 'examples', 'x-example'];
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isBodyParameter(param: unknown): boolean {
+  return isObject(param) && (param.in === 'body' || param.in === 'formData');
+}
+
+export function isConvertTarget(value: string): value is ConvertTarget {
+  return (CONVERT_TARGETS as string[]).includes(value);
+}
+
+/**
+ * Upgrades a Swagger 2.0 document to OpenAPI 3.0 or 3.1. The document must
+ * be self-contained (see SpecBundler); internal $refs are kept and pointed at
+ * the matching components.
+ */
+export class SpecConverter {
+  convert(api: OpenAPIV2.Document, target: ConvertTarget = '3.0'): OpenAPIV3.Document {
+    // Work on a copy without shared objects, so every use can be upgraded on its own
+    const source = JSON.parse(JSON.stringify(api)) as OpenAPIV2.Document;
+    this.inlineBodyParameters(source);
+
+    const {
+      swagger: _swagger,
+      info,
+      host,
+      basePath,
+      schemes,
+      consumes: _consumes,
+      produces,
+      paths: _paths,
+      definitions,
+      parameters,
+      responses,
+      securityDefinitions,
+      ...rest
+    } = source;
+
+    const components: Node = {};
+    if (definitions && Object.keys(definitions).length > 0) {
+      components.schemas = definitions;
+    }
+
+    const sharedParameters = Object.entries(parameters ?? {}).filter(
+      ([, param]) => !isBodyParameter(param)
+    );
+    if (sharedParameters.length > 0) {
+      components.parameters = Object.fromEntries(
+        sharedParameters.map(([name, param]) => [
+          name,
+          convertParameter(param as Parameters<typeof convertParameter>[0]),
+        ])
+      );
+    }
+
+    if (responses && Object.keys(responses).length > 0) {
+      components.responses = Object.fromEntries(
+        Object.entries(responses).map(([name, response]) => [
+          name,
+          convertResponse(response, produces),
+        ])
+      );
+    }
+
+    if (securityDefinitions && Object.keys(securityDefinitions).length > 0) {
+      components.securitySchemes = Object.fromEntries(
+        Object.entries(securityDefinitions).map(([name, scheme]) => [
+          name,
+          convertSecurityScheme(scheme),
+        ])
+      );
+    }
+
+    const document: Node = {
+      openapi: TARGET_VERSIONS[target],
+      info,
+      ...this.convertServers(host, basePath, schemes),
+      ...rest,
+      paths: convertPaths(source),
+    };
+    if (Object.keys(components).length > 0) document.components = components;
+
+    this.upgrade(document, target);
+    return document as unknown as OpenAPIV3.Document;
+  }
+
+  /**
+   * Body and formData parameters become part of each operation's request
+   * body, so $refs to shared ones are replaced by the parameter itself
+   */
+  private inlineBodyParameters(api: OpenAPIV2.Document): void {
+    const shared = (api.parameters ?? {}) as Record<string, unknown>;
+
+    const inline = (list: unknown): void => {
+      if (!Array.isArray(list)) return;
+      list.forEach((param, index) => {
+        if (!isObject(param) || typeof param.$ref !== 'string') return;
+        if (!param.$ref.startsWith('#/parameters/')) return;
+
+        const target = shared[param.$ref.slice('#/parameters/'.length)];
+        if (isBodyParameter(target)) list[index] = target;
+      });
+    };
+
+    for (const pathItem of Object.values(api.paths ?? {})) {
+      if (!isObject(pathItem)) continue;
+      inline(pathItem.parameters);
+      Object.values(pathItem).forEach(value => isObject(value) && inline(value.parameters));
+    }
+  }
+
+  /**
+   * One server per scheme. Without a host the servers are relative to
+   * wherever the spec is served from.
+   */
+  private convertServers(
+    host: string | undefined,
+    basePath: string | undefined,
+    schemes: string[] | undefined
+  ): { servers?: OpenAPIV3.ServerObject[] } {
+    if (!host) {
+      return basePath && basePath !== '/' ? { servers: [{ url: basePath }] } : {};
+    }
+
+    const path = basePath && basePath !== '/' ? basePath : '';
+    const urls = (schemes?.length ? schemes : ['https']).map(scheme => ({
+      url: `${scheme}://${host}${path}`,
+    }));
+    return { servers: urls };
+  }
+
+  /**
+   * Point $refs at components and rewrite the schema keywords that changed
+   * meaning between the versions
+   */
+  private upgrade(node: unknown, target: ConvertTarget): void {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.upgrade(item, target));
+      return;
+    }
+    if (!isObject(node)) return;
+
+    if (typeof node.$ref === 'string') {
+      const ref = node.$ref;
+      const prefix = REF_PREFIXES.find(([from]) => ref.startsWith(from));
+      if (prefix) node.$ref = prefix[1] + ref.slice(prefix[0].length);
+    }
+
+    if ('x-nullable' in node && typeof node['x-nullable'] === 'boolean') {
+      if (node['x-nullable']) node.nullable = true;
+      delete node['x-nullable'];
+    }
+    if (typeof node.discriminator === 'string') {
+      node.discriminator = { propertyName: node.discriminator };
+    }
+    if (node.type === 'file') {
+      node.type = 'string';
+      node.format = 'binary';
+    }
+    if (target === '3.1') this.upgradeTo31(node);
+
+    for (const [key, value] of Object.entries(node)) {
+      if (!EXAMPLE_KEYS.includes(key)) this.upgrade(value, target);
+    }
+  }
+
+  /**
+   * OpenAPI 3.1 schemas are JSON Schema 2020-12: `nullable` becomes a type
+   * union and exclusive bounds are numbers rather than flags
+   */
+  private upgradeTo31(node: Node): void {
+    if (typeof node.nullable === 'boolean') {
+      const nullable = node.nullable;
+      delete node.nullable;
+      if (nullable) this.allowNull(node);
+    }
+
+    for (const [flag, bound] of [
+      ['exclusiveMaximum', 'maximum'],
+      ['exclusiveMinimum', 'minimum'],
+    ]) {
+      if (typeof node[flag] !== 'boolean') continue;
+      if (node[flag] && typeof node[bound] === 'number') {
+        node[flag] = node[bound];
+        delete node[bound];
+      } else {
+        delete node[flag];
+      }
+    }
+  }
+
+  /**
+   * Let a schema accept null. Without a type to extend, a $ref or
+   * composition is wrapped, so null is allowed next to what it matches.
+   */
+  private allowNull(node: Node): void {
+    if (Array.isArray(node.enum) && !node.enum.includes(null)) node.enum.push(null);
+
+    if (typeof node.type === 'string') {
+      node.type = [node.type, 'null'];
+    } else if (Array.isArray(node.type)) {
+      if (!node.type.includes('null')) node.type.push('null');
+    } else if (['$ref', 'allOf', 'oneOf', 'anyOf'].some(key => key in node)) {
+      const original = { ...node };
+      for (const key of Object.keys(node)) delete node[key];
+      node.anyOf = [original, { type: 'null' }];
+    }
+  }
+}
@@ -0,0 +1,427 @@
+import {
+  parseDocument,
+  stringify,
+  isMap,
+  isScalar,
+  isSeq,
+  type Document,
+  type Pair,
+  type YAMLMap,
+} from 'yaml';
+import { HTTP_METHODS, toPointer } from './openapi.js';
+import type { RuleSettings } from './types.js';
+
+type Segments = Array<string | number>;
+
+/** Replace `[start, end)` of the original content with `text` */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A change made to the spec, named after the rule whose finding it fixes
+ */
+export interface AppliedFix {
+  rule: string;
+  message: string;
+  pointer: string;
+}
+
+export interface FixResult {
+  content: string;
+  fixes: AppliedFix[];
+}
+
+export const FIXABLE_RULES = [
+  'operation-operationId',
+  'path-params-required',
+  'operation-responses',
+] as const;
+
+// Keys that conventionally follow the operationId in an operation
+const OPERATION_BODY_KEYS = ['parameters', 'requestBody', 'responses', 'callbacks', 'security'];
+
+const DEFAULT_RESPONSE = { default: { description: 'Default response' } };
+
+function words(text: string): string[] {
+  return text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Build an operationId from the method and path,
+ * e.g. GET /users/{id}/posts -> getUsersByIdPosts
+ */
+export function generateOperationId(method: string, path: string): string {
+  const parts = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const name = words(segment).map(capitalize).join('');
+      return /^\{.*\}$/.test(segment) ? `By${name}` : name;
+    });
+  return `${method.toLowerCase()}${parts.join('')}`;
+}
+
+/**
+ * Detect the indentation width, so added nodes match the file's layout
+ */
+function detectIndent(content: string): number {
+  return /^( +)\S/m.exec(content)?.[1].length ?? 2;
+}
+
+function hasRange(pair: Pair): boolean {
+  return isScalar(pair.key) && pair.key.range !== undefined && pair.key.range !== null;
+}
+
+function keyStart(pair: Pair): number {
+  return (pair.key as { range: [number, number, number] }).range[0];
+}
+
+function valueEnd(pair: Pair): number {
+  const value = pair.value as { range?: [number, number, number] } | null;
+  return value?.range?.[1] ?? (pair.key as { range: [number, number, number] }).range[1];
+}
+
+/**
+ * Turns the edits made to the syntax tree into edits of the original text.
+ * Only added and changed nodes are printed; everything else keeps its bytes,
+ * including folded and literal block scalars, comments and spacing.
+ */
+class TextEditor {
+  private edits: TextEdit[] = [];
+
+  constructor(
+    private content: string,
+    private format: 'yaml' | 'json',
+    private indent: number
+  ) {}
+
+  replace(range: [number, number, number], value: unknown): void {
+    this.edits.push({ start: range[0], end: range[1], text: this.inline(value) });
+  }
+
+  /**
+   * Print the pairs added to `map`, next to the original pair that follows
+   * them, or after the last original pair
+   */
+  addPairs(map: YAMLMap): void {
+    const original = map.items.filter(hasRange);
+    if (original.length === 0) {
+      this.fillEmpty(map);
+      return;
+    }
+
+    const multiline =
+      !map.flow || /\n/.test(this.content.slice(map.range![0], keyStart(original[0])));
+
+    map.items.forEach((pair, index) => {
+      if (hasRange(pair)) return;
+
+      const key = String((pair.key as { value: unknown }).value);
+      const value = isScalar(pair.value) ? pair.value.value : (pair.value as YAMLMap).toJSON();
+      const anchor = map.items.slice(index + 1).find(hasRange);
+
+      if (map.flow) {
+        this.addFlowPair(key, value, anchor ?? original[original.length - 1], !anchor, multiline);
+      } else {
+        this.addBlockPair(key, value, anchor ?? original[original.length - 1], !anchor);
+      }
+    });
+  }
+
+  apply(): string {
+    // Edits at the same offset keep the order they were made in
+    const edits = this.edits
+      .map((edit, order) => ({ ...edit, order }))
+      .sort((a, b) => b.start - a.start || b.order - a.order);
+
+    let output = this.content;
+    for (const { start, end, text } of edits) {
+      output = output.slice(0, start) + text + output.slice(end);
+    }
+    return output;
+  }
+
+  private column(offset: number): number {
+    return offset - (this.content.lastIndexOf('\n', offset - 1) + 1);
+  }
+
+  private inline(value: unknown): string {
+    return this.format === 'json'
+      ? JSON.stringify(value)
+      : stringify(value, { collectionStyle: 'flow' }).trimEnd();
+  }
+
+  private indentLines(text: string, column: number): string {
+    return text.replace(/\n/g, `\n${' '.repeat(column)}`);
+  }
+
+  private addBlockPair(key: string, value: unknown, anchor: Pair, after: boolean): void {
+    const start = keyStart(anchor);
+    const column = this.column(start);
+    const text = this.indentLines(
+      stringify({ [key]: value }, { indent: this.indent }).trimEnd(),
+      column
+    );
+    const padding = ' '.repeat(column);
+
+    if (after) {
+      const end = valueEnd(anchor);
+      const newline = this.content[end - 1] === '\n' ? end - 1 : this.content.indexOf('\n', end);
+      if (newline === -1) {
+        this.insert(this.content.length, `\n${padding}${text}`);
+      } else {
+        this.insert(newline + 1, `${padding}${text}\n`);
+      }
+      return;
+    }
+
+    let lineStart = start - column;
+    if (this.content.slice(lineStart, start).trim() !== '') {
+      // The key shares its line with a `- ` sequence indicator
+      this.insert(start, `${text}\n${padding}`);
+      return;
+    }
+    // Comment lines right above a key belong to it
+    while (lineStart > 0) {
+      const previous = this.content.lastIndexOf('\n', lineStart - 2) + 1;
+      if (!this.content.slice(previous, lineStart).trim().startsWith('#')) break;
+      lineStart = previous;
+    }
+    this.insert(lineStart, `${padding}${text}\n`);
+  }
+
+  private addFlowPair(
+    key: string,
+    value: unknown,
+    anchor: Pair,
+    after: boolean,
+    multiline: boolean
+  ): void {
+    const column = this.column(keyStart(anchor));
+    const pair =
+      this.format === 'json'
+        ? `${JSON.stringify(key)}: ${this.indentLines(JSON.stringify(value, null, this.indent), column)}`
+        : `${this.inline(key)}: ${this.inline(value)}`;
+    const separator = multiline ? `,\n${' '.repeat(column)}` : ', ';
+
+    if (after) {
+      this.insert(valueEnd(anchor), `${separator}${pair}`);
+    } else {
+      this.insert(keyStart(anchor), `${pair}${separator}`);
+    }
+  }
+
+  /**
+   * An empty `{}` is printed again with its new content, as a block mapping
+   * in YAML
+   */
+  private fillEmpty(map: YAMLMap): void {
+    const [start, end] = map.range!;
+    const lineStart = start - this.column(start);
+    const column = /^[\s-]*/.exec(this.content.slice(lineStart, start))![0].length;
+
+    if (this.format === 'json') {
+      const text = JSON.stringify(map.toJSON(), null, this.indent);
+      this.edits.push({ start, end, text: this.indentLines(text, column) });
+      return;
+    }
+
+    let from = start;
+    while (this.content[from - 1] === ' ') from--;
+    const text = stringify(map.toJSON(), { indent: this.indent }).trimEnd();
+    const nested = column + this.indent;
+    this.edits.push({
+      start: from,
+      end,
+      text: `\n${' '.repeat(nested)}${this.indentLines(text, nested)}`,
+    });
+  }
+
+  private insert(offset: number, text: string): void {
+    this.edits.push({ start: offset, end: offset, text });
+  }
+}
+
+/**
+ * Applies mechanical fixes for lint findings to a YAML or JSON spec. The
+ * spec is edited through its syntax tree, and only the added or changed
+ * nodes are written back into the original text.
+ */
+export class SpecFixer {
+  private doc!: Document;
+  private fixes: AppliedFix[] = [];
+  // Mappings pairs were added to, and scalars that were changed
+  private touched = new Set<YAMLMap>();
+  private replaced: Array<{ range: [number, number, number]; value: unknown }> = [];
+  private enabled: Set<string>;
+
+  constructor(options: { rules?: RuleSettings } = {}) {
+    const rules = options.rules ?? {};
+    this.enabled = new Set(
+      FIXABLE_RULES.filter(rule => {
+        const setting = rules[rule];
+        return (Array.isArray(setting) ? setting[0] : setting) !== 'off';
+      })
+    );
+  }
+
+  fix(content: string, format: 'yaml' | 'json'): FixResult {
+    this.doc = parseDocument(content);
+    this.fixes = [];
+    this.touched = new Set();
+    this.replaced = [];
+
+    if (this.doc.errors.length > 0) {
+      throw new Error(`Failed to parse spec: ${this.doc.errors[0].message}`);
+    }
+
+    if (this.enabled.has('operation-operationId')) this.addOperationIds();
+    if (this.enabled.has('path-params-required')) this.requirePathParameters();
+    if (this.enabled.has('operation-responses')) this.addDefaultResponses();
+
+    if (this.fixes.length === 0) {
+      return { content, fixes: [] };
+    }
+
+    const editor = new TextEditor(content, format, detectIndent(content));
+    this.replaced.forEach(({ range, value }) => editor.replace(range, value));
+    this.touched.forEach(map => editor.addPairs(map));
+
+    return { content: editor.apply(), fixes: this.fixes };
+  }
+
+  private record(rule: string, message: string, segments: Segments): void {
+    this.fixes.push({ rule, message, pointer: toPointer(segments) });
+  }
+
+  private getMap(segments: Segments): YAMLMap | undefined {
+    const node = this.doc.getIn(segments, true);
+    return isMap(node) ? node : undefined;
+  }
+
+  private keysOf(map: YAMLMap | undefined): string[] {
+    return (map?.items ?? []).map(pair => (isScalar(pair.key) ? String(pair.key.value) : ''));
+  }
+
+  private operations(): Array<{ path: string; method: string; operation: YAMLMap }> {
+    const entries: Array<{ path: string; method: string; operation: YAMLMap }> = [];
+
+    for (const path of this.keysOf(this.getMap(['paths']))) {
+      for (const method of HTTP_METHODS) {
+        const operation = this.getMap(['paths', path, method]);
+        if (operation) entries.push({ path, method, operation });
+      }
+    }
+
+    return entries;
+  }
+
+  private addOperationIds(): void {
+    const used = new Set(
+      this.operations()
+        .map(({ operation }) => operation.get('operationId'))
+        .filter((id): id is string => typeof id === 'string')
+    );
+
+    for (const { path, method, operation } of this.operations()) {
+      if (operation.has('operationId')) continue;
+
+      const base = generateOperationId(method, path);
+      let operationId = base;
+      for (let counter = 2; used.has(operationId); counter++) {
+        operationId = `${base}${counter}`;
+      }
+      used.add(operationId);
+
+      // Keep summary/description/tags first and the operation body after
+      const keys = this.keysOf(operation);
+      const index = keys.findIndex(key => OPERATION_BODY_KEYS.includes(key));
+      operation.items.splice(
+        index === -1 ? keys.length : index,
+        0,
+        this.doc.createPair('operationId', operationId)
+      );
+      this.touched.add(operation);
+
+      this.record(
+        'operation-operationId',
+        `Added operationId "${operationId}" to ${method.toUpperCase()} ${path}`,
+        ['paths', path, method, 'operationId']
+      );
+    }
+  }
+
+  private requirePathParameters(): void {
+    const lists: Segments[] = [];
+    for (const path of this.keysOf(this.getMap(['paths']))) {
+      lists.push(['paths', path, 'parameters']);
+      for (const method of HTTP_METHODS) {
+        lists.push(['paths', path, method, 'parameters']);
+      }
+    }
+
+    const parameters: Segments[] = [];
+    for (const list of lists) {
+      const node = this.doc.getIn(list, true);
+      if (isSeq(node)) node.items.forEach((_, index) => parameters.push([...list, index]));
+    }
+
+    // Reusable parameters live in components, or at the top level in Swagger 2.0
+    const container = this.doc.has('swagger') ? ['parameters'] : ['components', 'parameters'];
+    for (const name of this.keysOf(this.getMap(container))) {
+      parameters.push([...container, name]);
+    }
+
+    for (const segments of parameters) {
+      const param = this.getMap(segments);
+      if (!param || param.get('in') !== 'path' || param.get('required') === true) continue;
+
+      const required = param.get('required', true);
+      if (isScalar(required) && required.range) {
+        this.replaced.push({ range: required.range, value: true });
+        param.set('required', true);
+      } else {
+        const index = this.keysOf(param).indexOf('in');
+        param.items.splice(index + 1, 0, this.doc.createPair('required', true));
+        this.touched.add(param);
+      }
+
+      this.record(
+        'path-params-required',
+        `Marked path parameter "${String(param.get('name'))}" as required`,
+        [...segments, 'required']
+      );
+    }
+  }
+
+  private addDefaultResponses(): void {
+    for (const { path, method, operation } of this.operations()) {
+      const responses = operation.get('responses', true);
+      const segments = ['paths', path, method, 'responses'];
+
+      if (responses === undefined) {
+        operation.items.push(this.doc.createPair('responses', DEFAULT_RESPONSE));
+        this.touched.add(operation);
+      } else if (isMap(responses) && responses.items.length === 0) {
+        // An empty `responses: {}` is rewritten as a block mapping
+        responses.set('default', this.doc.createNode(DEFAULT_RESPONSE.default));
+        this.touched.add(responses);
+      } else {
+        continue;
+      }
+
+      this.record(
+        'operation-responses',
+        `Added a default response to ${method.toUpperCase()} ${path}`,
+        segments
+      );
+    }
+  }
+}
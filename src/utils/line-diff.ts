@@ -0,0 +1,120 @@
+export type DiffLine =
+  | { type: 'equal'; text: string }
+  | { type: 'insert'; text: string }
+  | { type: 'delete'; text: string };
+
+const CONTEXT_LINES = 3;
+
+function splitLines(text: string): string[] {
+  return (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+}
+
+/**
+ * Line diff of two texts using Myers' algorithm, which stays cheap for
+ * large files with few changes
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m;
+  const v = new Array<number>(2 * offset + 2).fill(0);
+  const trace: number[][] = [];
+
+  const takeDown = (vector: number[], k: number, d: number): boolean =>
+    k === -d || (k !== d && vector[offset + k - 1] < vector[offset + k + 1]);
+
+  search: for (let d = 0; d <= offset; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = takeDown(v, k, d) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the recorded frontiers back from the end to recover the edit script
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vector = trace[d];
+    const k = x - y;
+    const prevK = takeDown(vector, k, d) ? k + 1 : k - 1;
+    const prevX = vector[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+
+    if (x === prevX) {
+      lines.push({ type: 'insert', text: b[--y] });
+    } else {
+      lines.push({ type: 'delete', text: a[--x] });
+    }
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Format the changes between two texts as a unified diff, or return an
+ * empty string when they are identical
+ */
+export function unifiedDiff(oldText: string, newText: string, file: string): string {
+  const lines = diffLines(oldText, newText);
+  const changed = lines.flatMap((line, index) => (line.type === 'equal' ? [] : [index]));
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into the same hunk
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(lines.length, index + CONTEXT_LINES + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  let oldLine = 1;
+  let newLine = 1;
+  let position = 0;
+
+  for (const [start, end] of ranges) {
+    for (; position < start; position++) {
+      if (lines[position].type !== 'insert') oldLine++;
+      if (lines[position].type !== 'delete') newLine++;
+    }
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== 'insert').length;
+    const newCount = hunk.filter(line => line.type !== 'delete').length;
+    output.push(`@@ -${oldLine},${oldCount} +${newLine},${newCount} @@`);
+
+    for (const line of hunk) {
+      const prefix = line.type === 'insert' ? '+' : line.type === 'delete' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+
+    for (; position < end; position++) {
+      if (lines[position].type !== 'insert') oldLine++;
+      if (lines[position].type !== 'delete') newLine++;
+    }
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -1,25 +1,74 @@
 import { readFile } from 'fs/promises';
-import { extname } from 'path';
+import { extname, resolve } from 'path';
 import yaml from 'js-yaml';
+import { SpecSourceMap } from './source-map.js';
 
-export async function loadSpec(specPath: string): Promise<unknown> {
+// Passing `-` as the spec path reads the spec from stdin
+export const STDIN_PATH = '-';
+
+// The YAML 1.2 core schema, as the source map and fixer parse it. The js-yaml
+// default would also turn unquoted dates into Date objects, which then fail
+// `type: string` schemas.
+const YAML_OPTIONS = { schema: yaml.CORE_SCHEMA };
+
+export interface SpecSource {
+  content: string;
+  document: unknown;
+}
+
+export function isStdin(specPath: string): boolean {
+  return specPath === STDIN_PATH;
+}
+
+/**
+ * The path relative $refs resolve from. A spec read from stdin is treated as
+ * a file named `stdin` in `basePath`, which defaults to the working directory.
+ */
+export function resolveSpecPath(specPath: string, basePath: string = process.cwd()): string {
+  return isStdin(specPath) ? resolve(basePath, 'stdin') : specPath;
+}
+
+export async function readStdin(stream: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Parse YAML or JSON spec content. The extension of `specPath` picks the
+ * parser when there is one.
+ */
+export function parseSpec(content: string, specPath = ''): unknown {
   const ext = extname(specPath).toLowerCase();
 
-  try {
-    const content = await readFile(specPath, 'utf-8');
+  if (ext === '.yaml' || ext === '.yml') {
+    return yaml.load(content, YAML_OPTIONS);
+  } else if (ext === '.json') {
+    return JSON.parse(content);
+  }
 
-    if (ext === '.yaml' || ext === '.yml') {
-      return yaml.load(content);
-    } else if (ext === '.json') {
+  // Without an extension, as for stdin, JSON is tried for content that looks
+  // like it, and YAML covers the rest (YAML is a superset of JSON)
+  if (/^\s*\{/.test(content)) {
+    try {
       return JSON.parse(content);
-    } else {
-      // Try to parse as YAML first (YAML is a superset of JSON)
-      try {
-        return yaml.load(content);
-      } catch {
-        return JSON.parse(content);
-      }
+    } catch {
+      // Fall through so the error comes from the YAML parser
     }
+  }
+  return yaml.load(content, YAML_OPTIONS);
+}
+
+/**
+ * Read and parse a spec from a file, or from stdin for `-`, keeping the raw
+ * content for source positions
+ */
+export async function loadSpecSource(specPath: string): Promise<SpecSource> {
+  try {
+    const content = isStdin(specPath) ? await readStdin() : await readFile(specPath, 'utf-8');
+    return { content, document: parseSpec(content, specPath) };
   } catch (error) {
     if (error instanceof Error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
@@ -31,6 +80,36 @@ export async function loadSpec(specPath: string): Promise<unknown> {
   }
 }
 
+export async function loadSpec(specPath: string): Promise<unknown> {
+  return (await loadSpecSource(specPath)).document;
+}
+
+/**
+ * Serialize a spec document as YAML or JSON
+ */
+export function serializeSpec(document: unknown, format: 'yaml' | 'json'): string {
+  if (format === 'json') {
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+  return yaml.dump(document, { noRefs: true, lineWidth: -1 });
+}
+
+/**
+ * Load a source map for the spec and every local file it references,
+ * mapping JSON pointers back to file, line and column. `content` stands in
+ * for the entry file when the spec did not come from disk.
+ */
+export async function loadSourceMap(specPath: string, content?: string): Promise<SpecSourceMap> {
+  try {
+    return await SpecSourceMap.load(specPath, content);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`File not found: ${specPath}`);
+    }
+    throw error;
+  }
+}
+
 export function isYamlFile(specPath: string): boolean {
   const ext = extname(specPath).toLowerCase();
   return ext === '.yaml' || ext === '.yml';
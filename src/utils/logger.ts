@@ -49,4 +49,9 @@ export const logger = {
   newLine(): void {
     console.log('');
   },
+
+  /** Clear the terminal; output piped to a file or another program is kept */
+  clear(): void {
+    if (process.stdout.isTTY) console.clear();
+  },
 };
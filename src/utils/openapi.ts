@@ -0,0 +1,237 @@
+import type { OpenAPI, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import type { SpecInfo } from './types.js';
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'trace'] as const;
+
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+export interface OperationEntry {
+  path: string;
+  method: HttpMethod;
+  operation: OpenAPIV3.OperationObject;
+  pathItem: OpenAPIV3.PathItemObject;
+}
+
+/**
+ * List every operation in the document, in path then method order
+ */
+export function getOperations(api: OpenAPI.Document): OperationEntry[] {
+  const operations: OperationEntry[] = [];
+
+  if (!api.paths) return operations;
+
+  for (const [path, pathItem] of Object.entries(api.paths)) {
+    if (!pathItem) continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = (pathItem as Record<string, unknown>)[method] as
+        | OpenAPIV3.OperationObject
+        | undefined;
+
+      if (operation) {
+        operations.push({
+          path,
+          method,
+          operation,
+          pathItem: pathItem as OpenAPIV3.PathItemObject,
+        });
+      }
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Format path segments the way validation errors display them,
+ * e.g. ['paths', '/pets', 'get', 'parameters', 0] -> paths./pets.get.parameters[0]
+ */
+export function formatPath(segments: Array<string | number>): string {
+  return segments.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Build an RFC 6901 JSON pointer from path segments
+ */
+export function toPointer(segments: Array<string | number>): string {
+  return segments
+    .map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
+
+/**
+ * Split an RFC 6901 JSON pointer (optionally prefixed with '#') into segments
+ */
+export function parsePointer(pointer: string): string[] {
+  const isFragment = pointer.startsWith('#');
+  const trimmed = isFragment ? pointer.slice(1) : pointer;
+  if (!trimmed) return [];
+
+  return trimmed
+    .split('/')
+    .slice(1)
+    .map(segment => (isFragment ? safeDecode(segment) : segment))
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Read the value at the given path segments, or undefined if any segment is missing
+ */
+export function getAtPath(node: unknown, segments: Array<string | number>): unknown {
+  let current = node;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// Keywords whose value is a single subschema
+const SUBSCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'not',
+  'contains',
+  'if',
+  'then',
+  'else',
+  'propertyNames',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+];
+
+// Keywords whose value is a list of subschemas
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+// Keywords whose value maps names to subschemas
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'dependentSchemas'];
+
+/**
+ * Call `visit` with every direct subschema of a schema and its path segments
+ */
+export function forEachSubschema(
+  schema: Record<string, unknown>,
+  segments: Array<string | number>,
+  visit: (subschema: Record<string, unknown>, segments: Array<string | number>) => void
+): void {
+  const isSchema = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    const sub = schema[keyword];
+    if (isSchema(sub)) visit(sub, [...segments, keyword]);
+  }
+
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    const list = schema[keyword];
+    if (!Array.isArray(list)) continue;
+    list.forEach((sub, index) => {
+      if (isSchema(sub)) visit(sub, [...segments, keyword, index]);
+    });
+  }
+
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    const map = schema[keyword];
+    if (!isSchema(map)) continue;
+    for (const [name, sub] of Object.entries(map)) {
+      if (isSchema(sub)) visit(sub, [...segments, keyword, name]);
+    }
+  }
+}
+
+/**
+ * Point the `#` refs inside 3.1 schemas that have an `$id` at that schema.
+ * JSON Schema resolves them against the `$id`, so `#/$defs/X` means the
+ * schema's own `$defs`, but the ref parser resolves every `#` against the
+ * document root. The `$id` is then dropped: dereferencing copies a schema
+ * to each of its uses, and Ajv rejects an `$id` it sees twice. The
+ * document is rewritten in place.
+ */
+export function rebaseSchemaRefs(api: unknown): void {
+  if (getSpecVersion(api) !== '3.1') return;
+
+  const walk = (
+    node: unknown,
+    segments: Array<string | number>,
+    base: Array<string | number> | undefined
+  ): void => {
+    if (node === null || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => walk(item, [...segments, index], base));
+      return;
+    }
+
+    const object = node as Record<string, unknown>;
+    const scope = typeof object.$id === 'string' ? segments : base;
+    if (scope !== base) delete object.$id;
+
+    const ref = object.$ref;
+    if (scope && typeof ref === 'string' && (ref === '#' || ref.startsWith('#/'))) {
+      object.$ref = `#${toPointer(scope)}${ref.slice(1)}`;
+    }
+
+    for (const [key, value] of Object.entries(object)) {
+      walk(value, [...segments, key], scope);
+    }
+  };
+
+  walk(api, [], undefined);
+}
+
+export type SpecVersion = '2.0' | '3.0' | '3.1';
+
+/**
+ * Detect the major spec version from the `swagger` or `openapi` field
+ */
+export function getSpecVersion(api: unknown): SpecVersion {
+  const doc = (api ?? {}) as { swagger?: unknown; openapi?: unknown };
+  if (typeof doc.swagger === 'string') return '2.0';
+  if (typeof doc.openapi === 'string' && doc.openapi.startsWith('3.1')) return '3.1';
+  return '3.0';
+}
+
+/**
+ * Summarize the document: title, version, spec version and counts
+ */
+export function getSpecInfo(api: OpenAPI.Document): SpecInfo {
+  const info: SpecInfo = {
+    title: api.info.title,
+    version: api.info.version,
+  };
+
+  // Determine OpenAPI version
+  if ('openapi' in api) {
+    info.openApiVersion = (api as OpenAPIV3.Document | OpenAPIV3_1.Document).openapi;
+  } else if ('swagger' in api) {
+    info.openApiVersion = `Swagger ${(api as { swagger: string }).swagger}`;
+  }
+
+  // Count paths
+  if (api.paths) {
+    info.pathCount = Object.keys(api.paths).length;
+  }
+
+  // Count schemas
+  if ('components' in api && (api as OpenAPIV3.Document).components?.schemas) {
+    info.schemaCount = Object.keys((api as OpenAPIV3.Document).components!.schemas!).length;
+  } else if ('definitions' in api) {
+    const swaggerApi = api as { definitions?: Record<string, unknown> };
+    if (swaggerApi.definitions) {
+      info.schemaCount = Object.keys(swaggerApi.definitions).length;
+    }
+  }
+
+  return info;
+}
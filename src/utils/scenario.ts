@@ -0,0 +1,146 @@
+import { readFile } from 'fs/promises';
+import { parseSpec } from './loader.js';
+import { getAtPath } from './openapi.js';
+import type { Scenario, ScenarioStep } from './types.js';
+
+// A whole-string reference keeps the variable's type; others are spliced in as text
+const VARIABLE = /\$\{([^}]+)\}/g;
+const WHOLE_VARIABLE = /^\$\{([^}]+)\}$/;
+
+// `.name`, `[0]` or `['name']` after the leading `$`
+const JSON_PATH_SEGMENT = /\.([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Split a JSONPath such as `$.body.items[0]['pet-id']` into its segments.
+ * Only plain member and index access is supported.
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath "${path}" must start with $`);
+  }
+
+  const segments: Array<string | number> = [];
+  JSON_PATH_SEGMENT.lastIndex = 1;
+
+  while (JSON_PATH_SEGMENT.lastIndex < path.length) {
+    const position = JSON_PATH_SEGMENT.lastIndex;
+    const match = JSON_PATH_SEGMENT.exec(path);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath "${path}" at position ${position}`);
+    }
+    segments.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]));
+  }
+
+  return segments;
+}
+
+export function queryJsonPath(data: unknown, path: string): unknown {
+  return getAtPath(data, parseJsonPath(path));
+}
+
+/**
+ * Replace `${name}` references with captured variables, in strings at any
+ * depth of the value
+ */
+export function interpolate<T>(value: T, variables: Record<string, unknown>): T {
+  const lookup = (name: string): unknown => {
+    if (!(name in variables)) {
+      throw new Error(`Variable "${name}" has not been captured by an earlier step`);
+    }
+    return variables[name];
+  };
+
+  const replace = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const whole = node.match(WHOLE_VARIABLE);
+      if (whole) return lookup(whole[1]);
+      return node.replace(VARIABLE, (_, name: string) => String(lookup(name)));
+    }
+    if (Array.isArray(node)) return node.map(replace);
+    if (isObject(node)) {
+      return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, replace(item)]));
+    }
+    return node;
+  };
+
+  return replace(value) as T;
+}
+
+function validateScenario(raw: unknown, filePath: string): Scenario {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid scenario file ${filePath}: ${message}`);
+  };
+
+  if (!isObject(raw)) fail('expected an object');
+  const scenario = raw as Record<string, unknown>;
+
+  if (scenario.name !== undefined && typeof scenario.name !== 'string') {
+    fail('"name" must be a string');
+  }
+  if (!Array.isArray(scenario.steps) || scenario.steps.length === 0) {
+    fail('"steps" must be a non-empty list');
+  }
+
+  (scenario.steps as unknown[]).forEach((step, index) => {
+    const where = `step ${index + 1}`;
+    if (!isObject(step)) return fail(`${where} must be an object`);
+
+    if (typeof step.operationId !== 'string') fail(`${where} needs an "operationId"`);
+    if (step.name !== undefined && typeof step.name !== 'string') {
+      fail(`${where}: "name" must be a string`);
+    }
+    if (step.params !== undefined && !isObject(step.params)) {
+      fail(`${where}: "params" must be a map of parameter names to values`);
+    }
+    if (
+      step.headers !== undefined &&
+      (!isObject(step.headers) || Object.values(step.headers).some(v => typeof v !== 'string'))
+    ) {
+      fail(`${where}: "headers" must be a map of strings`);
+    }
+    if (step.capture !== undefined) {
+      const paths = isObject(step.capture) ? Object.values(step.capture) : [undefined];
+      for (const path of paths) {
+        if (typeof path !== 'string') {
+          return fail(`${where}: "capture" must map variable names to JSONPaths`);
+        }
+        try {
+          parseJsonPath(path);
+        } catch (error) {
+          fail(`${where}: ${(error as Error).message}`);
+        }
+      }
+    }
+  });
+
+  return { name: scenario.name as string | undefined, steps: scenario.steps as ScenarioStep[] };
+}
+
+/**
+ * Load a scenario from a YAML or JSON file
+ */
+export async function loadScenario(filePath: string): Promise<Scenario> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Scenario file not found: ${filePath}`);
+    }
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseSpec(content, filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse scenario file ${filePath}: ${message}`);
+  }
+
+  return validateScenario(raw, filePath);
+}
@@ -0,0 +1,155 @@
+import Ajv from 'ajv';
+import Ajv2019 from 'ajv/dist/2019.js';
+import Ajv2020 from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import { getSpecVersion, type SpecVersion } from './openapi.js';
+
+export interface SchemaValidationError {
+  instancePath: string;
+  message?: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+// Get the actual Ajv classes (handles both ESM and CJS)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const AjvClass = (Ajv as any).default || Ajv;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const Ajv2019Class = (Ajv2019 as any).default || Ajv2019;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const Ajv2020Class = (Ajv2020 as any).default || Ajv2020;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const addFormatsFunc = (addFormats as any).default || addFormats;
+
+const DRAFT_2019_09 = 'https://json-schema.org/draft/2019-09/schema';
+const DRAFT_07 = 'http://json-schema.org/draft-07/schema';
+
+/**
+ * Compiles schemas from an OpenAPI document with the JSON Schema dialect
+ * the document uses: draft 2020-12 (or its declared jsonSchemaDialect) for
+ * OpenAPI 3.1, and the OpenAPI 3.0 / Swagger 2.0 schema subset otherwise.
+ */
+export class SchemaCompiler {
+  readonly version: SpecVersion;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private ajv: any;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private cache = new WeakMap<object, any>();
+  private normalized = new WeakMap<object, object>();
+
+  constructor(api: unknown) {
+    this.version = getSpecVersion(api);
+
+    const options = {
+      allErrors: true,
+      strict: false,
+      validateFormats: true,
+    };
+
+    if (this.version === '3.1') {
+      const dialect = (api as { jsonSchemaDialect?: string }).jsonSchemaDialect ?? '';
+      if (dialect.startsWith(DRAFT_2019_09)) {
+        this.ajv = new Ajv2019Class(options);
+      } else if (dialect.startsWith(DRAFT_07)) {
+        this.ajv = new AjvClass(options);
+      } else {
+        this.ajv = new Ajv2020Class(options);
+      }
+    } else {
+      this.ajv = new AjvClass(options);
+    }
+
+    addFormatsFunc(this.ajv);
+  }
+
+  /**
+   * Validate data against a schema, compiling it once per schema object
+   */
+  validate(schema: unknown, data: unknown): SchemaValidationResult {
+    const validateFn = this.compile(schema);
+    const valid = validateFn(data) as boolean;
+
+    return {
+      valid,
+      errors: valid ? [] : ((validateFn.errors ?? []) as SchemaValidationError[]),
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private compile(schema: unknown): any {
+    if (schema === null || typeof schema !== 'object') {
+      return this.ajv.compile(schema);
+    }
+
+    const cached = this.cache.get(schema);
+    if (cached) return cached;
+
+    const prepared = this.version === '3.1' ? stripSchemaKeyword(schema) : this.toDraft07(schema);
+    const compiled = this.ajv.compile(prepared);
+    this.cache.set(schema, compiled);
+    return compiled;
+  }
+
+  /**
+   * Rewrite OpenAPI 3.0 / Swagger 2.0 schema semantics for a draft-07
+   * validator: boolean exclusiveMinimum/exclusiveMaximum become numeric
+   * bounds and x-nullable maps to nullable. `nullable` itself is
+   * understood by Ajv.
+   */
+  private toDraft07(schema: object): object {
+    const existing = this.normalized.get(schema);
+    if (existing) return existing;
+
+    if (Array.isArray(schema)) {
+      const items: unknown[] = [];
+      this.normalized.set(schema, items);
+      schema.forEach(item =>
+        items.push(item !== null && typeof item === 'object' ? this.toDraft07(item) : item)
+      );
+      return items;
+    }
+
+    const result: Record<string, unknown> = {};
+    this.normalized.set(schema, result);
+
+    for (const [key, value] of Object.entries(schema)) {
+      result[key] = value !== null && typeof value === 'object' ? this.toDraft07(value) : value;
+    }
+
+    for (const [exclusive, bound] of [
+      ['exclusiveMinimum', 'minimum'],
+      ['exclusiveMaximum', 'maximum'],
+    ] as const) {
+      if (result[exclusive] === true && typeof result[bound] === 'number') {
+        result[exclusive] = result[bound];
+        delete result[bound];
+      } else if (typeof result[exclusive] === 'boolean') {
+        delete result[exclusive];
+      }
+    }
+
+    if (result['x-nullable'] === true && result.nullable === undefined) {
+      result.nullable = true;
+    }
+
+    // Without a type, nullable has no effect and Ajv refuses to compile it
+    if (result.nullable !== undefined && result.type === undefined) {
+      delete result.nullable;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Ajv rejects unknown meta-schemas, so per-schema $schema is dropped and
+ * the document-level dialect applies
+ */
+function stripSchemaKeyword(schema: object): object {
+  if (Array.isArray(schema) || !('$schema' in schema)) return schema;
+  const { $schema: _ignored, ...rest } = schema as Record<string, unknown>;
+  return rest;
+}
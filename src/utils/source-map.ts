@@ -0,0 +1,255 @@
+import { readFile } from 'fs/promises';
+import { dirname, relative, resolve } from 'path';
+import { parseDocument, LineCounter, isMap, isSeq, isScalar, type Node } from 'yaml';
+import { getAtPath, parsePointer, toPointer } from './openapi.js';
+import type { SourceLocation } from './types.js';
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+interface SourceFile {
+  file: string;
+  value: unknown;
+  positions: Map<string, Position>;
+}
+
+function isRemoteRef(ref: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(ref);
+}
+
+/**
+ * Parse YAML or JSON content and record the position of every node,
+ * keyed by JSON pointer. Mapping values point at their key.
+ */
+export function parseWithPositions(content: string, file: string): SourceFile {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter, uniqueKeys: false });
+  const positions = new Map<string, Position>();
+
+  const toPosition = (offset: number): Position => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  const walk = (node: Node | null | undefined, pointer: string): void => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        const childPointer = `${pointer}${toPointer([key])}`;
+        const keyNode = pair.key as Node | null;
+        const valueNode = pair.value as Node | null;
+        const offset = keyNode?.range?.[0] ?? valueNode?.range?.[0];
+
+        if (offset !== undefined) {
+          positions.set(childPointer, toPosition(offset));
+        }
+        walk(valueNode, childPointer);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => {
+        const childPointer = `${pointer}/${index}`;
+        const itemNode = item as Node | null;
+
+        if (itemNode?.range) {
+          positions.set(childPointer, toPosition(itemNode.range[0]));
+        }
+        walk(itemNode, childPointer);
+      });
+    }
+  };
+
+  positions.set('', { line: 1, column: 1 });
+  walk(doc.contents as Node | null, '');
+
+  return { file, value: doc.toJS({ maxAliasCount: -1 }), positions };
+}
+
+/**
+ * Maps JSON pointers into the root document back to file, line and column,
+ * following $ref pointers into other files where the pointer crosses them.
+ */
+export class SpecSourceMap {
+  private files = new Map<string, SourceFile>();
+  private entry: string;
+
+  private constructor(entry: string) {
+    this.entry = entry;
+  }
+
+  /**
+   * Load the entry file and every local file reachable through $ref. The
+   * entry's `content` can be given when it is not read from disk.
+   */
+  static async load(entryPath: string, content?: string): Promise<SpecSourceMap> {
+    const entry = resolve(entryPath);
+    const sourceMap = new SpecSourceMap(entry);
+    await sourceMap.loadFile(entry, content);
+    return sourceMap;
+  }
+
+  get fileNames(): string[] {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * The entry document as written, with every $ref intact
+   */
+  get document(): unknown {
+    return this.files.get(this.entry)?.value;
+  }
+
+  private async loadFile(file: string, content?: string): Promise<void> {
+    if (this.files.has(file)) return;
+
+    content ??= await readFile(file, 'utf-8');
+    const source = parseWithPositions(content, file);
+    this.files.set(file, source);
+
+    for (const { ref } of findRefs(source.value, [])) {
+      const [refFile] = ref.split('#');
+      if (!refFile || isRemoteRef(refFile)) continue;
+
+      const target = resolve(dirname(file), refFile);
+      try {
+        await this.loadFile(target);
+      } catch {
+        // Unresolvable files are reported by the ref resolver, not here
+      }
+    }
+  }
+
+  /**
+   * Find the source location for a JSON pointer into the root document.
+   * Returns the closest enclosing node when the exact node is not found.
+   */
+  locate(pointer: string): SourceLocation | undefined {
+    let source = this.files.get(this.entry);
+    if (!source) return undefined;
+
+    let node: unknown = source.value;
+    let consumed: string[] = [];
+
+    for (const segment of parsePointer(pointer)) {
+      // Follow $ref before descending, unless the pointer targets the $ref itself
+      const ref = getRef(node);
+      if (ref !== undefined && segment !== '$ref') {
+        const target = this.resolveRef(source.file, ref);
+        if (!target) break;
+
+        source = target.source;
+        consumed = target.segments;
+        node = getAtPath(source.value, consumed);
+        if (node === undefined) break;
+      }
+
+      const child = getAtPath(node, [segment]);
+      if (child === undefined) break;
+
+      node = child;
+      consumed = [...consumed, segment];
+    }
+
+    return this.positionOf(source, consumed);
+  }
+
+  /**
+   * List every local $ref whose target cannot be found, with its location
+   */
+  findBrokenRefs(): Array<{ ref: string; location: SourceLocation }> {
+    const broken: Array<{ ref: string; location: SourceLocation }> = [];
+
+    for (const source of this.files.values()) {
+      for (const { ref, segments } of findRefs(source.value, [])) {
+        if (isRemoteRef(ref)) continue;
+
+        const target = this.resolveRef(source.file, ref);
+        if (!target || getAtPath(target.source.value, target.segments) === undefined) {
+          broken.push({ ref, location: this.positionOf(source, [...segments, '$ref']) });
+        }
+      }
+    }
+
+    return broken;
+  }
+
+  /**
+   * List the refs from other files that point back into the entry
+   * document, as internal refs such as `#/components/schemas/Pet`
+   */
+  refsIntoEntry(): string[] {
+    const refs: string[] = [];
+
+    for (const source of this.files.values()) {
+      if (source.file === this.entry) continue;
+
+      for (const { ref } of findRefs(source.value, [])) {
+        if (isRemoteRef(ref)) continue;
+
+        const target = this.resolveRef(source.file, ref);
+        if (target?.source.file === this.entry) {
+          refs.push(`#${toPointer(target.segments)}`);
+        }
+      }
+    }
+
+    return refs;
+  }
+
+  private resolveRef(
+    fromFile: string,
+    ref: string
+  ): { source: SourceFile; segments: string[] } | undefined {
+    const [refFile, fragment = ''] = ref.split('#');
+    const file = refFile ? resolve(dirname(fromFile), refFile) : fromFile;
+    const source = this.files.get(file);
+    if (!source) return undefined;
+
+    return { source, segments: parsePointer(`#${fragment}`) };
+  }
+
+  private positionOf(source: SourceFile, segments: string[]): SourceLocation {
+    // Walk back to the closest ancestor that has a recorded position
+    for (let i = segments.length; i >= 0; i--) {
+      const position = source.positions.get(toPointer(segments.slice(0, i)));
+      if (position) {
+        return { file: source.file, ...position };
+      }
+    }
+    return { file: source.file, line: 1, column: 1 };
+  }
+}
+
+function getRef(node: unknown): string | undefined {
+  if (node && typeof node === 'object' && !Array.isArray(node)) {
+    const ref = (node as Record<string, unknown>).$ref;
+    if (typeof ref === 'string') return ref;
+  }
+  return undefined;
+}
+
+function findRefs(
+  node: unknown,
+  segments: string[]
+): Array<{ ref: string; segments: string[] }> {
+  const ref = getRef(node);
+  if (ref !== undefined) return [{ ref, segments }];
+
+  const found: Array<{ ref: string; segments: string[] }> = [];
+  if (node && typeof node === 'object') {
+    for (const [key, value] of Object.entries(node)) {
+      found.push(...findRefs(value, [...segments, key]));
+    }
+  }
+  return found;
+}
+
+/**
+ * Format a location as file:line:col, relative to baseDir when given
+ */
+export function formatLocation(location: SourceLocation, baseDir?: string): string {
+  const relativePath = baseDir ? relative(baseDir, location.file) : '';
+  const file = relativePath && !relativePath.startsWith('..') ? relativePath : location.file;
+  return `${file}:${location.line}:${location.column}`;
+}
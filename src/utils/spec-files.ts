@@ -0,0 +1,153 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { extname, join, resolve, sep } from 'path';
+import { loadSpec } from './loader.js';
+
+const SPEC_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+// Never descend into dependencies or hidden directories such as .git
+const IGNORED_DIRECTORIES = ['node_modules'];
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+export function isGlob(pattern: string): boolean {
+  return GLOB_CHARS.test(pattern);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Convert a glob to a regular expression over `/`-separated relative paths.
+ * Supports `*`, `**`, `?`, `[abc]` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i) !== -1) {
+      const end = pattern.indexOf(']', i);
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+      i = end;
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i);
+      const options = pattern
+        .slice(i + 1, end)
+        .split(',')
+        .map(escapeRegExp);
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List every file below a directory as `/`-separated paths relative to it
+ */
+async function walk(dir: string, prefix = ''): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.includes(entry.name)) continue;
+      files.push(...(await walk(join(dir, entry.name), `${relativePath}/`)));
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstGlob).join(sep) || (pattern.startsWith('/') ? sep : '.');
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+
+  const files = await walk(base);
+  return files.filter(file => matcher.test(file)).map(file => join(base, file));
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Expand spec arguments into file paths. Directories are searched
+ * recursively for YAML and JSON files, globs are matched against the files
+ * below their static prefix, and other paths are kept as given so missing
+ * files are reported by the caller.
+ */
+export async function expandSpecPaths(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      files.push(...(await expandGlob(pattern)));
+    } else if (await isDirectory(pattern)) {
+      const found = await walk(pattern);
+      files.push(
+        ...found
+          .filter(file => SPEC_EXTENSIONS.includes(extname(file).toLowerCase()))
+          .map(file => join(pattern, file))
+      );
+    } else {
+      files.push(pattern);
+    }
+  }
+
+  // The same file may be matched by several arguments
+  const seen = new Set<string>();
+  return files.filter(file => {
+    const key = resolve(file);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Tell whether a file is an OpenAPI or Swagger document. Files that fail to
+ * parse still count when they appear to declare a version, so their syntax
+ * errors get reported instead of the file being skipped.
+ */
+export async function isOpenApiFile(specPath: string): Promise<boolean> {
+  try {
+    const document = await loadSpec(specPath);
+    return (
+      document !== null &&
+      typeof document === 'object' &&
+      ('openapi' in document || 'swagger' in document)
+    );
+  } catch (error) {
+    if ((error as Error).message.startsWith('File not found')) throw error;
+    const content = await readFile(specPath, 'utf-8');
+    return /^\s*["']?(openapi|swagger)["']?\s*:/m.test(content);
+  }
+}
@@ -0,0 +1,256 @@
+import type { OpenAPI } from 'openapi-types';
+import {
+  forEachSubschema,
+  getOperations,
+  getSpecInfo,
+  getSpecVersion,
+  HTTP_METHODS,
+  type OperationEntry,
+} from './openapi.js';
+import type { OperationSchemaUsage, SchemaMetrics, SpecStats } from './types.js';
+
+type Node = Record<string, unknown>;
+
+interface SchemaMeasure {
+  depth: number;
+  size: number;
+  // Stack position of the outermost schema a recursive $ref pointed back to
+  cutAt: number;
+}
+
+// Operations without tags are counted under this name
+export const UNTAGGED = '(untagged)';
+
+// Keys that hold examples on parameters, media types and Swagger 2.0 responses
+const EXAMPLE_KEYS = ['example', 'examples', 'x-example'];
+
+function isObject(value: unknown): value is Node {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function operationLabel({ method, path }: OperationEntry): string {
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Percentage with one decimal, 0 when there is nothing to count
+ */
+function percent(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 1000) / 10;
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sum = values.reduce((total, value) => total + value, 0);
+  return Math.round((sum / values.length) * 10) / 10;
+}
+
+/**
+ * Builds an inventory of a dereferenced spec: operations by method and tag,
+ * security coverage, schema complexity and documentation coverage. The
+ * document must be dereferenced so a schema used in several places is the
+ * same object everywhere, which is how operations are matched to the
+ * reusable schemas they use.
+ */
+export class SpecAnalyzer {
+  private names = new Map<object, string>();
+  private measures = new Map<object, SchemaMeasure>();
+
+  analyze(api: OpenAPI.Document, externalFiles: string[] = []): SpecStats {
+    this.names = new Map();
+    this.measures = new Map();
+
+    const schemas = this.namedSchemas(api);
+    schemas.forEach(([name, schema]) => this.names.set(schema, name));
+
+    const operations = getOperations(api);
+    const metrics: SchemaMetrics[] = schemas
+      .map(([name, schema]) => {
+        const { depth, size } = this.measure(schema, new Map());
+        return { name, depth, size };
+      })
+      .sort((a, b) => b.size - a.size || b.depth - a.depth || a.name.localeCompare(b.name));
+
+    const usage: OperationSchemaUsage[] = operations.map(entry => ({
+      operation: operationLabel(entry),
+      schemas: this.schemasUsedBy(entry),
+    }));
+
+    const secured = operations.filter(entry => this.isSecured(api, entry)).length;
+    const described = operations.filter(({ operation }) =>
+      Boolean(operation.summary?.trim() || operation.description?.trim())
+    ).length;
+    const withExamples = operations.filter(entry => this.hasExamples(entry)).length;
+
+    return {
+      info: getSpecInfo(api),
+      operations: {
+        total: operations.length,
+        byMethod: this.countByMethod(operations),
+        byTag: this.countByTag(operations),
+        deprecated: operations.filter(({ operation }) => operation.deprecated).map(operationLabel),
+      },
+      security: {
+        secured,
+        unsecured: operations.filter(entry => !this.isSecured(api, entry)).map(operationLabel),
+        coverage: percent(secured, operations.length),
+        schemes: this.countSchemeUsage(api, operations),
+      },
+      schemas: {
+        total: schemas.length,
+        maxDepth: Math.max(0, ...metrics.map(m => m.depth)),
+        averageDepth: average(metrics.map(m => m.depth)),
+        averageSize: average(metrics.map(m => m.size)),
+        metrics,
+      },
+      schemaUsage: {
+        average: average(usage.map(u => u.schemas.length)),
+        max: Math.max(0, ...usage.map(u => u.schemas.length)),
+        operations: usage,
+      },
+      documentation: {
+        described,
+        withExamples,
+        descriptionCoverage: percent(described, operations.length),
+        exampleCoverage: percent(withExamples, operations.length),
+      },
+      externalFiles,
+    };
+  }
+
+  private namedSchemas(api: OpenAPI.Document): Array<[string, Node]> {
+    const doc = api as { components?: { schemas?: unknown }; definitions?: unknown };
+    const container = getSpecVersion(api) === '2.0' ? doc.definitions : doc.components?.schemas;
+    if (!isObject(container)) return [];
+
+    return Object.entries(container).filter((entry): entry is [string, Node] => isObject(entry[1]));
+  }
+
+  private countByMethod(operations: OperationEntry[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const method of HTTP_METHODS) {
+      const count = operations.filter(entry => entry.method === method).length;
+      if (count > 0) counts[method.toUpperCase()] = count;
+    }
+    return counts;
+  }
+
+  private countByTag(operations: OperationEntry[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const { operation } of operations) {
+      const tags = operation.tags?.length ? operation.tags : [UNTAGGED];
+      for (const tag of new Set(tags)) {
+        counts[tag] = (counts[tag] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  private effectiveSecurity(api: OpenAPI.Document, { operation }: OperationEntry): unknown {
+    return operation.security ?? (api as { security?: unknown }).security;
+  }
+
+  /**
+   * An operation is secured when it has requirements and none of them is
+   * the empty `{}` that allows anonymous access
+   */
+  private isSecured(api: OpenAPI.Document, entry: OperationEntry): boolean {
+    const security = this.effectiveSecurity(api, entry);
+    return (
+      Array.isArray(security) &&
+      security.length > 0 &&
+      security.every(requirement => isObject(requirement) && Object.keys(requirement).length > 0)
+    );
+  }
+
+  /**
+   * How many operations each security scheme protects
+   */
+  private countSchemeUsage(
+    api: OpenAPI.Document,
+    operations: OperationEntry[]
+  ): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const entry of operations) {
+      const security = this.effectiveSecurity(api, entry);
+      if (!Array.isArray(security)) continue;
+
+      const schemes = new Set(security.filter(isObject).flatMap(Object.keys));
+      for (const scheme of schemes) {
+        counts[scheme] = (counts[scheme] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Nesting levels and number of declared properties of a schema, following
+   * $refs. A schema that refers back to one being measured adds nothing, so
+   * recursive schemas stay finite. Only schemas outside of cycles are
+   * cached.
+   */
+  private measure(schema: Node, stack: Map<object, number>): SchemaMeasure {
+    const cached = this.measures.get(schema);
+    if (cached) return cached;
+
+    const index = stack.get(schema);
+    if (index !== undefined) return { depth: 0, size: 0, cutAt: index };
+
+    const own = stack.size;
+    stack.set(schema, own);
+
+    let depth = 0;
+    let size = isObject(schema.properties) ? Object.keys(schema.properties).length : 0;
+    let cutAt = Infinity;
+    forEachSubschema(schema, [], sub => {
+      const measure = this.measure(sub, stack);
+      depth = Math.max(depth, measure.depth);
+      size += measure.size;
+      cutAt = Math.min(cutAt, measure.cutAt);
+    });
+    stack.delete(schema);
+
+    // Schemas on a cycle measure differently depending on where it is entered
+    const result = { depth: depth + 1, size, cutAt: cutAt >= own ? Infinity : cutAt };
+    if (cutAt === Infinity) this.measures.set(schema, result);
+    return result;
+  }
+
+  /**
+   * Names of the reusable schemas reachable from an operation, directly or
+   * through other schemas
+   */
+  private schemasUsedBy({ operation, pathItem }: OperationEntry): string[] {
+    const used = new Set<string>();
+    const seen = new Set<object>();
+
+    const walk = (node: unknown): void => {
+      if (node === null || typeof node !== 'object' || seen.has(node)) return;
+      seen.add(node);
+
+      const name = this.names.get(node);
+      if (name !== undefined) used.add(name);
+
+      Object.values(node).forEach(walk);
+    };
+
+    walk(pathItem.parameters);
+    walk(operation);
+    return [...used].sort();
+  }
+
+  private hasExamples({ operation, pathItem }: OperationEntry): boolean {
+    const parameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])];
+    const responses = Object.values(operation.responses ?? {});
+    const mediaTypes = [operation.requestBody, ...responses].flatMap(owner =>
+      isObject(owner) && isObject(owner.content) ? Object.values(owner.content) : []
+    );
+
+    return [...parameters, ...responses, ...mediaTypes].some(
+      node =>
+        isObject(node) &&
+        (EXAMPLE_KEYS.some(key => key in node) ||
+          (isObject(node.schema) && 'example' in node.schema))
+    );
+  }
+}
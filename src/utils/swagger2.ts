@@ -0,0 +1,317 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { HTTP_METHODS } from './openapi.js';
+
+const DEFAULT_MEDIA_TYPES = ['application/json'];
+
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+// Keywords a Swagger 2.0 non-body parameter or header shares with JSON Schema
+const SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+] as const;
+
+type Swagger2Parameter = OpenAPIV2.Parameter & Record<string, unknown>;
+
+/**
+ * Build a schema from the inline type fields of a Swagger 2.0 parameter,
+ * header or items object
+ */
+export function inlineSchema(source: Record<string, unknown>): OpenAPIV3.SchemaObject {
+  const schema: Record<string, unknown> = {};
+
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (source[keyword] === undefined) continue;
+
+    if (keyword === 'items' && typeof source.items === 'object' && source.items !== null) {
+      schema.items = inlineSchema(source.items as Record<string, unknown>);
+    } else if (keyword === 'type' && source.type === 'file') {
+      schema.type = 'string';
+      schema.format = 'binary';
+    } else {
+      schema[keyword] = source[keyword];
+    }
+  }
+
+  return schema as OpenAPIV3.SchemaObject;
+}
+
+/**
+ * Map a collectionFormat to the equivalent OpenAPI 3 style/explode pair
+ */
+function collectionStyle(
+  param: Swagger2Parameter
+): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+  switch (param.collectionFormat) {
+    case 'ssv':
+      return { style: 'spaceDelimited', explode: false };
+    case 'pipes':
+      return { style: 'pipeDelimited', explode: false };
+    case 'multi':
+      return { style: 'form', explode: true };
+    case 'csv':
+      return param.in === 'query' || param.in === 'formData'
+        ? { style: 'form', explode: false }
+        : { style: 'simple' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert a non-body Swagger 2.0 parameter to an OpenAPI 3 parameter
+ */
+export function convertParameter(param: Swagger2Parameter): OpenAPIV3.ParameterObject {
+  const converted: OpenAPIV3.ParameterObject = {
+    name: param.name,
+    in: param.in,
+    required: param.required ?? (param.in === 'path' ? true : undefined),
+    schema: inlineSchema(param),
+  };
+
+  if (param.description) converted.description = param.description as string;
+  if (param['x-example'] !== undefined) converted.example = param['x-example'];
+  if (param.type === 'array') Object.assign(converted, collectionStyle(param));
+  if (param.allowEmptyValue) converted.allowEmptyValue = true;
+
+  if (converted.required === undefined) delete converted.required;
+  return converted;
+}
+
+/**
+ * Build a request body from `in: body` or `in: formData` parameters
+ */
+export function convertRequestBody(
+  parameters: Swagger2Parameter[],
+  consumes: string[] = DEFAULT_MEDIA_TYPES
+): OpenAPIV3.RequestBodyObject | undefined {
+  const bodyParam = parameters.find(p => p.in === 'body') as
+    (OpenAPIV2.InBodyParameterObject & Record<string, unknown>) | undefined;
+
+  if (bodyParam) {
+    const mediaTypes = consumes.length > 0 ? consumes : DEFAULT_MEDIA_TYPES;
+    const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+
+    for (const mediaType of mediaTypes) {
+      content[mediaType] = { schema: bodyParam.schema as OpenAPIV3.SchemaObject };
+      if (bodyParam['x-example'] !== undefined) {
+        content[mediaType].example = bodyParam['x-example'];
+      }
+    }
+
+    const body: OpenAPIV3.RequestBodyObject = { content };
+    if (bodyParam.description) body.description = bodyParam.description;
+    if (bodyParam.required) body.required = true;
+    return body;
+  }
+
+  const formParams = parameters.filter(p => p.in === 'formData');
+  if (formParams.length === 0) return undefined;
+
+  const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+  const required: string[] = [];
+
+  for (const param of formParams) {
+    properties[param.name] = inlineSchema(param);
+    if (param.description) properties[param.name].description = param.description as string;
+    if (param['x-example'] !== undefined) properties[param.name].example = param['x-example'];
+    if (param.required) required.push(param.name);
+  }
+
+  const schema: OpenAPIV3.SchemaObject = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+
+  // File uploads need multipart, otherwise keep whatever form types are declared
+  const hasFile = formParams.some(p => p.type === 'file');
+  const formTypes = consumes.filter(
+    type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded'
+  );
+  const mediaTypes = hasFile
+    ? ['multipart/form-data']
+    : formTypes.length > 0
+      ? formTypes
+      : ['application/x-www-form-urlencoded'];
+
+  const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+  for (const mediaType of mediaTypes) {
+    content[mediaType] = { schema };
+  }
+
+  return { content, ...(required.length > 0 ? { required: true } : {}) };
+}
+
+/**
+ * Convert a Swagger 2.0 response, spreading its schema over the produced media types
+ */
+export function convertResponse(
+  response: OpenAPIV2.ResponseObject,
+  produces: string[] = DEFAULT_MEDIA_TYPES
+): OpenAPIV3.ResponseObject {
+  const converted: OpenAPIV3.ResponseObject = { description: response.description ?? '' };
+
+  if (response.headers) {
+    converted.headers = {};
+    for (const [name, header] of Object.entries(response.headers)) {
+      const source = header as unknown as Record<string, unknown>;
+      converted.headers[name] = { schema: inlineSchema(source) };
+      if (source.description) converted.headers[name].description = source.description as string;
+    }
+  }
+
+  if (response.schema) {
+    const mediaTypes = produces.length > 0 ? produces : DEFAULT_MEDIA_TYPES;
+    const examples = (response.examples ?? {}) as Record<string, unknown>;
+    converted.content = {};
+
+    for (const mediaType of mediaTypes) {
+      converted.content[mediaType] = { schema: response.schema as OpenAPIV3.SchemaObject };
+      if (examples[mediaType] !== undefined) {
+        converted.content[mediaType].example = examples[mediaType];
+      }
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a Swagger 2.0 operation to the OpenAPI 3 shape, using the
+ * document-level consumes/produces when the operation does not set them
+ */
+export function convertOperation(
+  operation: OpenAPIV2.OperationObject,
+  api: OpenAPIV2.Document,
+  pathParameters: OpenAPIV2.Parameters = []
+): OpenAPIV3.OperationObject {
+  const consumes = operation.consumes ?? api.consumes ?? DEFAULT_MEDIA_TYPES;
+  const produces = operation.produces ?? api.produces ?? DEFAULT_MEDIA_TYPES;
+  const operationParameters = (operation.parameters ?? []) as Swagger2Parameter[];
+  // Operation-level parameters override path-level ones with the same name and location
+  const allParameters = [
+    ...operationParameters,
+    ...(pathParameters as Swagger2Parameter[]).filter(
+      p => !operationParameters.some(o => o.name === p.name && o.in === p.in)
+    ),
+  ];
+
+  const {
+    parameters: _parameters,
+    responses: _responses,
+    consumes: _consumes,
+    produces: _produces,
+    schemes: _schemes,
+    ...rest
+  } = operation;
+
+  const converted = { ...rest } as OpenAPIV3.OperationObject;
+
+  const parameters = convertParameters(operationParameters);
+  if (parameters.length > 0) converted.parameters = parameters;
+
+  const requestBody = convertRequestBody(allParameters, consumes);
+  if (requestBody) converted.requestBody = requestBody;
+
+  converted.responses = {};
+  for (const [status, response] of Object.entries(operation.responses ?? {})) {
+    converted.responses[status] =
+      response && '$ref' in response
+        ? (response as OpenAPIV3.ReferenceObject)
+        : convertResponse(response as OpenAPIV2.ResponseObject, produces);
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a list of Swagger 2.0 parameters. Body and formData parameters
+ * move into each operation's request body instead. $refs are kept, so they
+ * must not point at body or formData parameters.
+ */
+export function convertParameters(
+  parameters: OpenAPIV2.Parameters = []
+): Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> {
+  return parameters
+    .map(p => p as Swagger2Parameter)
+    .filter(p => p.in !== 'body' && p.in !== 'formData')
+    .map(p => ('$ref' in p ? (p as OpenAPIV3.ReferenceObject) : convertParameter(p)));
+}
+
+/**
+ * Convert a Swagger 2.0 path item and all of its operations
+ */
+export function convertPathItem(
+  pathItem: OpenAPIV2.PathItemObject,
+  api: OpenAPIV2.Document
+): OpenAPIV3.PathItemObject {
+  const { parameters, ...rest } = pathItem;
+  const converted: Record<string, unknown> = {};
+
+  const pathParameters = convertParameters(parameters);
+  if (pathParameters.length > 0) converted.parameters = pathParameters;
+
+  for (const [key, value] of Object.entries(rest)) {
+    converted[key] = (HTTP_METHODS as readonly string[]).includes(key)
+      ? convertOperation(value as OpenAPIV2.OperationObject, api, parameters)
+      : value;
+  }
+
+  return converted as OpenAPIV3.PathItemObject;
+}
+
+/**
+ * Convert every path of a Swagger 2.0 document to the OpenAPI 3 shape
+ */
+export function convertPaths(api: OpenAPIV2.Document): OpenAPIV3.PathsObject {
+  const paths: OpenAPIV3.PathsObject = {};
+  for (const [path, pathItem] of Object.entries(api.paths ?? {})) {
+    if (pathItem) paths[path] = convertPathItem(pathItem, api);
+  }
+  return paths;
+}
+
+/**
+ * Convert a Swagger 2.0 security definition to an OpenAPI 3 security scheme
+ */
+export function convertSecurityScheme(
+  scheme: OpenAPIV2.SecuritySchemeObject
+): OpenAPIV3.SecuritySchemeObject {
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  switch (scheme.type) {
+    case 'basic':
+      return { type: 'http', scheme: 'basic', ...description };
+    case 'apiKey':
+      return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+    default: {
+      const flow: Record<string, unknown> = {};
+      if ('authorizationUrl' in scheme) flow.authorizationUrl = scheme.authorizationUrl;
+      if ('tokenUrl' in scheme) flow.tokenUrl = scheme.tokenUrl;
+      flow.scopes = scheme.scopes ?? {};
+
+      return {
+        type: 'oauth2',
+        ...description,
+        flows: { [OAUTH2_FLOWS[scheme.flow]]: flow },
+      } as OpenAPIV3.OAuth2SecurityScheme;
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import type { OpenAPI } from 'openapi-types';
+
 export type ValidationErrorType =
   | 'syntax-error'
   | 'missing-field'
@@ -5,22 +7,102 @@ export type ValidationErrorType =
   | 'ref-error'
   | 'validation-error'
   | 'warning-as-error'
+  | 'rule-violation'
   | 'unknown';
 
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Another place in the spec involved in an issue, e.g. the first
+ * operation using a duplicated operationId
+ */
+export interface RelatedLocation {
+  pointer: string;
+  location?: SourceLocation;
+}
+
 export interface ValidationError {
   type: ValidationErrorType;
   message: string;
   path?: string;
   details?: string;
+  rule?: string;
+  pointer?: string;
+  location?: SourceLocation;
+  related?: RelatedLocation[];
+}
+
+export interface ValidationWarning {
+  message: string;
+  path?: string;
+  rule?: string;
+  pointer?: string;
+  location?: SourceLocation;
+  related?: RelatedLocation[];
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors?: ValidationError[];
-  warnings?: string[];
+  warnings?: ValidationWarning[];
   info?: SpecInfo;
 }
 
+/**
+ * The outcome for one of several spec files validated together
+ */
+export interface SpecFileResult {
+  specPath: string;
+  result: ValidationResult;
+  // Set when the file was not validated, e.g. because it is not an OpenAPI document
+  skipped?: string;
+}
+
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * Per-rule configuration: either a bare severity or an ESLint-style
+ * tuple of severity and rule-specific options.
+ */
+export type RuleSetting = RuleSeverity | [RuleSeverity, Record<string, unknown>];
+
+export type RuleSettings = Record<string, RuleSetting>;
+
+export interface RuleFinding {
+  message: string;
+  path?: Array<string | number>;
+  /** Paths of other nodes involved, reported alongside the finding */
+  related?: Array<Array<string | number>>;
+}
+
+export interface RuleContext {
+  api: OpenAPI.Document;
+  options: Record<string, unknown>;
+  /** The entry document as written, before $refs are resolved */
+  document?: unknown;
+  /** Refs from other files of a multi-file spec into the entry document */
+  externalRefs?: string[];
+}
+
+export type RuleSource = Pick<RuleContext, 'document' | 'externalRefs'>;
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: RuleSeverity;
+  check(context: RuleContext): RuleFinding[];
+}
+
+export interface SpecValidatorOptions {
+  strict?: boolean;
+  rules?: RuleSettings;
+  customRules?: LintRule[];
+}
+
 export interface SpecInfo {
   title: string;
   version: string;
@@ -37,12 +119,153 @@ export interface ApiValidationResult {
   responseTime: number;
   error?: string;
   details?: string[];
+  /** Scenario step the request was made for */
+  step?: string;
+}
+
+/**
+ * One request of a scenario. String values may reference variables captured
+ * by earlier steps as `${name}`.
+ */
+export interface ScenarioStep {
+  operationId: string;
+  name?: string;
+  /** Path, query, header and cookie parameter values by parameter name */
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /** Replaces the request body built from the spec's examples */
+  body?: unknown;
+  /** Variables to set from the response, as JSONPath into `{ status, headers, body }` */
+  capture?: Record<string, string>;
+}
+
+export interface Scenario {
+  name?: string;
+  steps: ScenarioStep[];
+}
+
+/**
+ * Credentials for one security scheme, keyed by the scheme's name in the
+ * spec. Which fields are read depends on the scheme type.
+ */
+export interface AuthCredentials {
+  /** Bearer token, or a ready-made OAuth2 / OpenID Connect access token */
+  token?: string;
+  /** Basic auth, or the resource owner for the OAuth2 password flow */
+  username?: string;
+  password?: string;
+  /** apiKey value */
+  value?: string;
+  /** OAuth2 client for the client-credentials and password flows */
+  clientId?: string;
+  clientSecret?: string;
 }
 
 export interface ApiValidatorOptions {
   baseUrl: string;
   headers?: Record<string, string>;
   timeout?: number;
+  /** Requests allowed in flight at once (default: 1) */
+  concurrency?: number;
+  /** Methods whose operations never run alongside other requests */
+  serial?: string[];
+  /** Extra attempts after a 429, or a network error or 5xx of an idempotent method (default: 0) */
+  retries?: number;
+  /** Backoff before the first retry in ms, doubled for each further one (default: 500) */
+  retryDelay?: number;
+  /** Longest Retry-After wait in ms that is honored; longer ones end the retries (default: 30000) */
+  maxRetryWait?: number;
+  /** Most requests started per second, retries included */
+  rate?: number;
+  /** Credentials per security scheme; environment variables take precedence */
+  auth?: Record<string, AuthCredentials>;
+}
+
+export type ChangeSeverity = 'breaking' | 'non-breaking' | 'info';
+
+export interface SpecChange {
+  severity: ChangeSeverity;
+  type: string;
+  message: string;
+  path: string;
+}
+
+export interface DiffResult {
+  changes: SpecChange[];
+  breaking: number;
+  nonBreaking: number;
+  info: number;
+}
+
+export interface BundleResult {
+  document: Record<string, unknown>;
+  cycles: string[];
+}
+
+export interface SchemaMetrics {
+  name: string;
+  depth: number;
+  size: number;
+}
+
+export interface OperationSchemaUsage {
+  operation: string;
+  schemas: string[];
+}
+
+export interface SpecStats {
+  info: SpecInfo;
+  operations: {
+    total: number;
+    byMethod: Record<string, number>;
+    byTag: Record<string, number>;
+    deprecated: string[];
+  };
+  security: {
+    secured: number;
+    unsecured: string[];
+    coverage: number;
+    schemes: Record<string, number>;
+  };
+  schemas: {
+    total: number;
+    maxDepth: number;
+    averageDepth: number;
+    averageSize: number;
+    metrics: SchemaMetrics[];
+  };
+  schemaUsage: {
+    average: number;
+    max: number;
+    operations: OperationSchemaUsage[];
+  };
+  documentation: {
+    described: number;
+    withExamples: number;
+    descriptionCoverage: number;
+    exampleCoverage: number;
+  };
+  externalFiles: string[];
+}
+
+export type ReportFormat = 'pretty' | 'json' | 'junit' | 'sarif';
+
+export interface ValidatorConfig {
+  spec?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  concurrency?: number;
+  serial?: string[];
+  retries?: number;
+  retryDelay?: number;
+  maxRetryWait?: number;
+  rate?: number;
+  auth?: Record<string, AuthCredentials>;
+  endpoints?: string[];
+  strict?: boolean;
+  rules?: RuleSettings;
+  customRules?: string[];
 }
 
 export const ExitCodes = {
@@ -0,0 +1,136 @@
+import { watch, type FSWatcher } from 'fs';
+import { dirname, resolve } from 'path';
+import { logger } from './logger.js';
+import type { ValidationError, ValidationResult, ValidationWarning } from './types.js';
+
+export type ReportedIssue =
+  { severity: 'error'; issue: ValidationError } | { severity: 'warning'; issue: ValidationWarning };
+
+export interface ResultChanges {
+  added: ReportedIssue[];
+  fixed: ReportedIssue[];
+  remaining: ReportedIssue[];
+}
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Identify an issue across runs. Locations are left out because edits
+ * elsewhere in the file shift line numbers.
+ */
+function issueKey({ severity, issue }: ReportedIssue): string {
+  const source = issue.rule ?? ('type' in issue ? issue.type : '');
+  return [severity, source, issue.pointer ?? issue.path ?? '', issue.message].join('\u0000');
+}
+
+function listIssues(result: ValidationResult | undefined): ReportedIssue[] {
+  return [
+    ...(result?.errors ?? []).map(issue => ({ severity: 'error' as const, issue })),
+    ...(result?.warnings ?? []).map(issue => ({ severity: 'warning' as const, issue })),
+  ];
+}
+
+/**
+ * Compare two validation runs. Everything is new when there is no previous run.
+ */
+export function diffResults(
+  previous: ValidationResult | undefined,
+  current: ValidationResult
+): ResultChanges {
+  const unmatched = listIssues(previous);
+  const added: ReportedIssue[] = [];
+  const remaining: ReportedIssue[] = [];
+
+  for (const entry of listIssues(current)) {
+    const key = issueKey(entry);
+    const index = unmatched.findIndex(old => issueKey(old) === key);
+    if (index === -1) {
+      added.push(entry);
+    } else {
+      unmatched.splice(index, 1);
+      remaining.push(entry);
+    }
+  }
+
+  return { added, fixed: unmatched, remaining };
+}
+
+/**
+ * Watches a set of files and calls back once per burst of changes. The
+ * callback returns the files to watch from then on, so files added through
+ * new $refs are picked up. Directories are watched rather than the files,
+ * so editors that save by replacing the file keep being noticed.
+ */
+export class FileWatcher {
+  private files = new Set<string>();
+  private watchers = new Map<string, FSWatcher>();
+  private changed = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private pending = false;
+
+  constructor(
+    private onChange: (changed: string[]) => Promise<string[]>,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Start watching more files. Files are never dropped, so one that fails
+   * to parse and disappears from the $ref graph is still watched.
+   */
+  add(files: string[]): void {
+    for (const file of files.map(f => resolve(f))) {
+      this.files.add(file);
+
+      const dir = dirname(file);
+      if (this.watchers.has(dir)) continue;
+
+      const watcher = watch(dir, (_event, filename) => {
+        const changed = filename ? resolve(dir, filename.toString()) : undefined;
+        if (changed && this.files.has(changed)) this.schedule(changed);
+      });
+      this.watchers.set(dir, watcher);
+    }
+  }
+
+  get watched(): string[] {
+    return [...this.files];
+  }
+
+  close(): void {
+    clearTimeout(this.timer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+  }
+
+  private schedule(file: string): void {
+    this.changed.add(file);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.flush(), this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    // Changes made while a run is in progress trigger one more run after it
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+    const changed = [...this.changed];
+    this.changed.clear();
+
+    try {
+      this.add(await this.onChange(changed));
+    } catch (error) {
+      // Nothing awaits this run, so a failure is reported and watching goes on
+      logger.error(`Watch run failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.running = false;
+      if (this.pending) {
+        this.pending = false;
+        void this.flush();
+      }
+    }
+  }
+}
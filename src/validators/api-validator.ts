@@ -1,44 +1,100 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
 import axios, { AxiosError, type AxiosRequestConfig, type AxiosResponse } from 'axios';
-import Ajv from 'ajv';
-import addFormats from 'ajv-formats';
-import type { OpenAPI, OpenAPIV3 } from 'openapi-types';
-import type { ApiValidationResult, ApiValidatorOptions } from '../utils/types.js';
-
-interface AjvError {
-  instancePath: string;
-  message?: string;
-}
+import type { OpenAPIV2, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import type {
+  ApiValidationResult,
+  ApiValidatorOptions,
+  AuthCredentials,
+  Scenario,
+} from '../utils/types.js';
+import { SchemaCompiler } from '../utils/schema-compiler.js';
+import { RateLimiter, delay, mapWithConcurrency } from '../utils/concurrency.js';
+import { convertPaths, convertSecurityScheme } from '../utils/swagger2.js';
+import { AuthProvider } from '../utils/auth.js';
+import { HTTP_METHODS, rebaseSchemaRefs } from '../utils/openapi.js';
+import { interpolate, queryJsonPath } from '../utils/scenario.js';
 
 interface HeaderValidationError {
   header: string;
   message: string;
 }
 
-// Get the actual Ajv class (handles both ESM and CJS)
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const AjvClass = (Ajv as any).default || Ajv;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const addFormatsFunc = (addFormats as any).default || addFormats;
+interface EndpointTest {
+  path: string;
+  method: string;
+  operation: OpenAPIV3.OperationObject;
+  pathItem: OpenAPIV3.PathItemObject;
+}
+
+interface RequestOverrides {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface SendResult {
+  response?: AxiosResponse;
+  error?: unknown;
+  responseTime: number;
+  attempts: string[];
+}
+
+// Prefix of results for requests that could not be built to match the spec
+const SETUP_ERROR = 'Test setup error';
+
+// Operation extension that keeps a single operation out of the pool
+const SERIAL_EXTENSION = 'x-serial';
+
+// Methods that may be sent twice without changing the result
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete', 'trace'];
+
+const isIdempotent = (method: string | undefined): boolean =>
+  IDEMPOTENT_METHODS.includes((method ?? 'get').toLowerCase());
+
+// Statuses worth another attempt: a 429 was not processed, so any method may
+// be re-sent, but after a server error only idempotent requests are
+const isRetryStatus = (status: number, method: string | undefined): boolean =>
+  status === 429 || (status >= 500 && isIdempotent(method));
+
+/**
+ * Retry-After holds either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
 export class ApiValidator {
   private baseUrl: string;
   private headers: Record<string, string>;
   private timeout: number;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private ajv: any;
+  private concurrency: number;
+  private serial: string[];
+  private retries: number;
+  private retryDelay: number;
+  private maxRetryWait: number;
+  private limiter?: RateLimiter;
+  private credentials?: Record<string, AuthCredentials>;
+  private auth!: AuthProvider;
+  private basePath = '';
+  private compiler!: SchemaCompiler;
 
   constructor(options: ApiValidatorOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.headers = options.headers || {};
     this.timeout = options.timeout || 5000;
-
-    this.ajv = new AjvClass({
-      allErrors: true,
-      strict: false,
-      validateFormats: true,
-    });
-    addFormatsFunc(this.ajv);
+    this.concurrency = options.concurrency || 1;
+    this.serial = (options.serial || []).map(method => method.toLowerCase());
+    this.retries = options.retries || 0;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.maxRetryWait = options.maxRetryWait ?? 30_000;
+    if (options.rate) this.limiter = new RateLimiter(options.rate);
+    this.credentials = options.auth;
   }
 
   async validate(
@@ -49,8 +105,14 @@ export class ApiValidator {
     const results: ApiValidationResult[] = [];
 
     try {
-      // Parse and dereference the spec
-      const api = (await SwaggerParser.dereference(specPath)) as OpenAPIV3.Document;
+      const api = await this.prepare(spec, specPath);
+
+      // Webhooks are requests the API sends, so they cannot be exercised here
+      const webhookResults = this.listWebhooks(api);
+
+      if (!api.paths && webhookResults.length > 0) {
+        return webhookResults;
+      }
 
       if (!api.paths) {
         return [
@@ -69,6 +131,7 @@ export class ApiValidator {
         ? Object.entries(api.paths).filter(([path]) => endpoints.includes(path))
         : Object.entries(api.paths);
 
+      const tests: EndpointTest[] = [];
       for (const [path, pathItem] of pathsToTest) {
         if (!pathItem) continue;
 
@@ -80,12 +143,30 @@ export class ApiValidator {
           ] as OpenAPIV3.OperationObject | undefined;
 
           if (operation) {
-            const result = await this.testEndpoint(path, method, operation, api, pathItem);
-            results.push(result);
+            tests.push({
+              path,
+              method,
+              operation,
+              pathItem: pathItem as OpenAPIV3.PathItemObject,
+            });
           }
         }
       }
 
+      // Results come back in spec order however the requests interleave
+      const tested = await mapWithConcurrency(
+        tests,
+        this.concurrency,
+        ({ path, method, operation, pathItem }) =>
+          this.testEndpoint(path, method, operation, api as OpenAPIV3.Document, pathItem),
+        test => this.isSerial(test)
+      );
+      results.push(...tested);
+
+      if (!endpoints) {
+        results.push(...webhookResults);
+      }
+
       return results;
     } catch (error) {
       if (error instanceof Error) {
@@ -103,13 +184,214 @@ export class ApiValidator {
     }
   }
 
+  /**
+   * Run the steps of a scenario in order. Values captured from one step's
+   * response are available to later steps as `${name}`. Every step is
+   * validated like any other request, and a failed step does not stop the
+   * ones after it.
+   */
+  async runScenario(
+    spec: unknown,
+    specPath: string,
+    scenario: Scenario
+  ): Promise<ApiValidationResult[]> {
+    let api: OpenAPIV3.Document | OpenAPIV3_1.Document;
+    try {
+      api = await this.prepare(spec, specPath);
+    } catch (error) {
+      if (error instanceof Error) {
+        return [{ path: '/', method: 'get', valid: false, error: error.message, responseTime: 0 }];
+      }
+      throw error;
+    }
+
+    const operations = new Map<string, EndpointTest>();
+    for (const [path, pathItem] of Object.entries(api.paths ?? {})) {
+      for (const method of HTTP_METHODS) {
+        const operation = (pathItem as Record<string, unknown>)?.[method] as
+          OpenAPIV3.OperationObject | undefined;
+        if (operation?.operationId) {
+          operations.set(operation.operationId, {
+            path,
+            method,
+            operation,
+            pathItem: pathItem as OpenAPIV3.PathItemObject,
+          });
+        }
+      }
+    }
+
+    const variables: Record<string, unknown> = {};
+    const results: ApiValidationResult[] = [];
+
+    for (const step of scenario.steps) {
+      const name = step.name ?? step.operationId;
+      const target = operations.get(step.operationId);
+      if (!target) {
+        results.push({
+          path: step.operationId,
+          method: '',
+          valid: false,
+          responseTime: 0,
+          error: `${SETUP_ERROR} - no operation with operationId "${step.operationId}"`,
+          step: name,
+        });
+        continue;
+      }
+
+      const { path, method, operation, pathItem } = target;
+      let overrides: RequestOverrides;
+      try {
+        const { operationId: _operationId, name: _name, capture: _capture, ...request } = step;
+        overrides = interpolate(request, variables);
+      } catch (error) {
+        results.push({
+          path,
+          method,
+          valid: false,
+          responseTime: 0,
+          error: `${SETUP_ERROR} - ${(error as Error).message}`,
+          step: name,
+        });
+        continue;
+      }
+
+      const capture = (response: AxiosResponse): string[] => {
+        const problems: string[] = [];
+        const source = { status: response.status, headers: response.headers, body: response.data };
+
+        for (const [variable, jsonPath] of Object.entries(step.capture ?? {})) {
+          const value = queryJsonPath(source, jsonPath);
+          if (value === undefined) {
+            problems.push(`Capture '${variable}': ${jsonPath} matched nothing`);
+          } else {
+            variables[variable] = value;
+          }
+        }
+        return problems;
+      };
+
+      const result = await this.testEndpoint(
+        path,
+        method,
+        operation,
+        api as OpenAPIV3.Document,
+        pathItem,
+        overrides,
+        capture
+      );
+      results.push({ ...result, step: name });
+    }
+
+    return results;
+  }
+
+  /**
+   * Dereference the spec and set up schema validation and authentication
+   * for it
+   */
+  private async prepare(
+    spec: unknown,
+    specPath: string
+  ): Promise<OpenAPIV3.Document | OpenAPIV3_1.Document> {
+    // Dereference a copy of the spec, resolving relative $refs from specPath
+    const copy = structuredClone(spec) as OpenAPIV3.Document;
+    rebaseSchemaRefs(copy);
+    const document = (await SwaggerParser.dereference(specPath, copy, {})) as OpenAPIV2.Document | OpenAPIV3.Document | OpenAPIV3_1.Document;
+
+    // 3.1 documents validate with their JSON Schema dialect, 3.0 keeps its own
+    this.compiler = new SchemaCompiler(document);
+
+    // Swagger 2.0 operations are tested in their OpenAPI 3 shape
+    const api = this.normalize(document);
+
+    // Each operation is sent with credentials for the schemes it declares
+    this.auth = new AuthProvider(
+      api.components?.securitySchemes as Record<string, OpenAPIV3.SecuritySchemeObject>,
+      { baseUrl: this.baseUrl, timeout: this.timeout, credentials: this.credentials }
+    );
+
+    return api;
+  }
+
+  /**
+   * Serial operations run with no other request in flight, e.g. mutating
+   * calls that would race reads of the same resource
+   */
+  private isSerial({ method, operation }: EndpointTest): boolean {
+    const flag = (operation as Record<string, unknown>)[SERIAL_EXTENSION];
+    if (typeof flag === 'boolean') return flag;
+    return this.serial.includes(method);
+  }
+
+  /**
+   * Convert Swagger 2.0 documents to the OpenAPI 3 shape used for testing.
+   * The basePath is prefixed to every request unless the base URL already
+   * ends with it; the base URL always takes the place of host and schemes.
+   */
+  private normalize(
+    document: OpenAPIV2.Document | OpenAPIV3.Document | OpenAPIV3_1.Document
+  ): OpenAPIV3.Document | OpenAPIV3_1.Document {
+    this.basePath = '';
+
+    if (this.compiler.version !== '2.0') {
+      return document as OpenAPIV3.Document | OpenAPIV3_1.Document;
+    }
+
+    const swagger = document as OpenAPIV2.Document;
+    const basePath = (swagger.basePath ?? '').replace(/\/$/, '');
+    if (basePath && !this.baseUrl.endsWith(basePath)) {
+      this.basePath = basePath;
+    }
+
+    const securitySchemes = Object.fromEntries(
+      Object.entries(swagger.securityDefinitions ?? {}).map(([name, scheme]) => [
+        name,
+        convertSecurityScheme(scheme),
+      ])
+    );
+
+    return {
+      openapi: '3.0.0',
+      info: swagger.info,
+      paths: convertPaths(swagger),
+      components: { securitySchemes },
+      security: swagger.security,
+    };
+  }
+
+  /**
+   * List OpenAPI 3.1 webhooks as skipped results
+   */
+  private listWebhooks(api: OpenAPIV3.Document | OpenAPIV3_1.Document): ApiValidationResult[] {
+    const webhooks = (api as OpenAPIV3_1.Document).webhooks;
+    if (!webhooks) return [];
+
+    const results: ApiValidationResult[] = [];
+    for (const [name, pathItem] of Object.entries(webhooks)) {
+      for (const method of Object.keys(pathItem ?? {})) {
+        if (!['get', 'post', 'put', 'patch', 'delete'].includes(method)) continue;
+        results.push({
+          path: `webhook:${name}`,
+          method,
+          valid: true,
+          statusCode: 0,
+          responseTime: 0,
+          error: 'Skipped - webhooks are sent by the API and cannot be requested',
+        });
+      }
+    }
+    return results;
+  }
+
   /**
    * Resolve path with parameter values from examples or generated defaults
    */
   private resolvePath(
     path: string,
     operation: OpenAPIV3.OperationObject,
-    pathItem: OpenAPIV3.PathItemObject
+    pathItem: OpenAPIV3.PathItemObject,
+    values: Record<string, unknown> = {}
   ): { resolvedPath: string; skipped: boolean; skipReason?: string } {
     const pathParamMatches = path.match(/\{([^}]+)\}/g);
     if (!pathParamMatches) {
@@ -133,8 +415,9 @@ export class ApiValidator {
         };
       }
 
-      // Get example value from various sources
-      const exampleValue = this.getParameterExample(param);
+      // Get example value from various sources, unless a scenario sets it
+      const exampleValue =
+        paramName in values ? values[paramName] : this.getParameterExample(param);
       if (exampleValue === undefined) {
         return {
           resolvedPath: path,
@@ -267,15 +550,34 @@ export class ApiValidator {
     }
 
     // Try form data
-    const formContent = content['application/x-www-form-urlencoded'];
-    if (formContent) {
-      const body = this.extractBodyExample(formContent);
-      return { body, contentType: 'application/x-www-form-urlencoded' };
+    for (const contentType of ['application/x-www-form-urlencoded', 'multipart/form-data']) {
+      const formContent = content[contentType];
+      if (formContent) {
+        const body = this.extractBodyExample(formContent);
+        return { body, contentType };
+      }
     }
 
     return null;
   }
 
+  /**
+   * Ask for JSON unless the operation only documents other response types
+   */
+  private getAcceptHeader(operation: OpenAPIV3.OperationObject): string {
+    const mediaTypes = new Set<string>();
+
+    for (const response of Object.values(operation.responses ?? {})) {
+      const content = (response as OpenAPIV3.ResponseObject).content;
+      Object.keys(content ?? {}).forEach(type => mediaTypes.add(type));
+    }
+
+    if (mediaTypes.size === 0 || mediaTypes.has('application/json')) {
+      return 'application/json';
+    }
+    return [...mediaTypes].join(', ');
+  }
+
   /**
    * Extract body example from media type object
    */
@@ -306,7 +608,8 @@ export class ApiValidator {
    */
   private buildQueryParams(
     operation: OpenAPIV3.OperationObject,
-    pathItem: OpenAPIV3.PathItemObject
+    pathItem: OpenAPIV3.PathItemObject,
+    values: Record<string, unknown> = {}
   ): Record<string, string> {
     const params: Record<string, string> = {};
     const allParameters = [...(pathItem.parameters || []), ...(operation.parameters || [])];
@@ -314,8 +617,10 @@ export class ApiValidator {
     for (const p of allParameters) {
       const param = p as OpenAPIV3.ParameterObject;
       if (param.in === 'query') {
-        // Only include required params or those with examples
-        if (param.required || param.example !== undefined) {
+        if (param.name in values) {
+          params[param.name] = String(values[param.name]);
+        } else if (param.required || param.example !== undefined) {
+          // Only include required params or those with examples
           const value = this.getParameterExample(param);
           if (value !== undefined) {
             params[param.name] = String(value);
@@ -327,17 +632,166 @@ export class ApiValidator {
     return params;
   }
 
+  /**
+   * Add header and cookie parameters to `headers`. Values a scenario sets
+   * replace what is there; others are generated like query parameters,
+   * unless a header or cookie of that name is already sent.
+   */
+  private buildHeaders(
+    operation: OpenAPIV3.OperationObject,
+    pathItem: OpenAPIV3.PathItemObject,
+    values: Record<string, unknown>,
+    base: Record<string, string>
+  ): Record<string, string> {
+    const headers = { ...base };
+    const cookieKey = Object.keys(headers).find(name => name.toLowerCase() === 'cookie');
+    const cookies = new Map<string, string>();
+    for (const cookie of (cookieKey ? headers[cookieKey] : '').split(';')) {
+      const [name, ...value] = cookie.split('=');
+      if (name.trim()) cookies.set(name.trim(), value.join('='));
+    }
+
+    const allParameters = [...(pathItem.parameters || []), ...(operation.parameters || [])];
+    for (const p of allParameters) {
+      const param = p as OpenAPIV3.ParameterObject;
+      if (param.in !== 'header' && param.in !== 'cookie') continue;
+
+      const existing =
+        param.in === 'header'
+          ? Object.keys(headers).find(name => name.toLowerCase() === param.name.toLowerCase())
+          : cookies.has(param.name)
+            ? param.name
+            : undefined;
+
+      let value: unknown;
+      if (param.name in values) {
+        value = values[param.name];
+      } else if (existing === undefined && (param.required || param.example !== undefined)) {
+        value = this.getParameterExample(param);
+      }
+      if (value === undefined) continue;
+
+      if (param.in === 'cookie') {
+        cookies.set(param.name, String(value));
+      } else {
+        if (existing !== undefined) delete headers[existing];
+        headers[param.name] = String(value);
+      }
+    }
+
+    if (cookies.size > 0) {
+      if (cookieKey) delete headers[cookieKey];
+      headers.Cookie = [...cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+    }
+    return headers;
+  }
+
+  /**
+   * Check the generated request against the operation's parameter and
+   * request body schemas. Problems found here lie in the examples the
+   * request was built from, not in the API, so the request is not sent.
+   */
+  private validateRequest(
+    operation: OpenAPIV3.OperationObject,
+    pathItem: OpenAPIV3.PathItemObject,
+    request: {
+      query: Record<string, string>;
+      headers: Record<string, unknown>;
+      body?: { body: unknown; contentType: string };
+      values: Record<string, unknown>;
+    }
+  ): string[] {
+    const problems: string[] = [];
+    const { values } = request;
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    const cookies = new Set(
+      String(headers.cookie ?? '')
+        .split(';')
+        .map(cookie => cookie.split('=')[0].trim())
+    );
+
+    // Operation-level parameters override path-level ones with the same name and location
+    const operationParams = (operation.parameters ?? []) as OpenAPIV3.ParameterObject[];
+    const parameters = [
+      ...operationParams,
+      ...((pathItem.parameters ?? []) as OpenAPIV3.ParameterObject[]).filter(
+        p => !operationParams.some(o => o.name === p.name && o.in === p.in)
+      ),
+    ];
+
+    for (const name of Object.keys(values)) {
+      if (!parameters.some(param => param.name === name)) {
+        problems.push(`Parameter '${name}': not defined for this operation`);
+      }
+    }
+
+    for (const param of parameters) {
+      const label = `${param.in.charAt(0).toUpperCase()}${param.in.slice(1)} parameter '${param.name}'`;
+
+      // Header and cookie values are only known as strings, so only their presence is checked
+      if (param.in === 'header' || param.in === 'cookie') {
+        const sent =
+          param.in === 'header' ? param.name.toLowerCase() in headers : cookies.has(param.name);
+        if (param.required && !sent) problems.push(`${label}: required but not sent`);
+        continue;
+      }
+
+      const sent = param.in === 'path' || param.name in request.query;
+      if (!sent) {
+        if (param.required) problems.push(`${label}: required but not sent`);
+        continue;
+      }
+      if (!param.schema) continue;
+
+      const value = param.name in values ? values[param.name] : this.getParameterExample(param);
+      problems.push(...this.checkSchema(label, param.schema, value));
+    }
+
+    const requestBody = operation.requestBody as OpenAPIV3.RequestBodyObject | undefined;
+    if (!request.body) {
+      if (requestBody?.required) problems.push('Request body: required but not sent');
+    } else if (!requestBody) {
+      problems.push('Request body: the operation does not take one');
+    } else {
+      const schema = requestBody.content?.[request.body.contentType]?.schema;
+      if (schema) problems.push(...this.checkSchema('Request body', schema, request.body.body));
+    }
+
+    return problems;
+  }
+
+  private checkSchema(label: string, schema: unknown, value: unknown): string[] {
+    try {
+      const validation = this.compiler.validate(schema, value);
+      return validation.errors.map(
+        err => `${label}${err.instancePath ? ` ${err.instancePath}` : ''}: ${err.message}`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [`${label}: invalid schema: ${message}`];
+    }
+  }
+
   private async testEndpoint(
     path: string,
     method: string,
     operation: OpenAPIV3.OperationObject,
     api: OpenAPIV3.Document,
-    pathItem: OpenAPIV3.PathItemObject
+    pathItem: OpenAPIV3.PathItemObject,
+    overrides: RequestOverrides = {},
+    onResponse?: (response: AxiosResponse) => string[]
   ): Promise<ApiValidationResult> {
-    const startTime = Date.now();
+    const values = overrides.params ?? {};
 
     // Resolve path parameters
-    const { resolvedPath, skipped, skipReason } = this.resolvePath(path, operation, pathItem);
+    const { resolvedPath, skipped, skipReason } = this.resolvePath(
+      path,
+      operation,
+      pathItem,
+      values
+    );
 
     if (skipped) {
       return {
@@ -350,75 +804,182 @@ export class ApiValidator {
       };
     }
 
-    const url = `${this.baseUrl}${resolvedPath}`;
+    const url = `${this.baseUrl}${this.basePath}${resolvedPath}`;
 
     // Build query parameters
-    const queryParams = this.buildQueryParams(operation, pathItem);
+    const queryParams = this.buildQueryParams(operation, pathItem, values);
+
+    // Any method that declares a request body sends one: generated, or the scenario's
+    const generatedBody = this.buildRequestBody(operation);
+    const body =
+      'body' in overrides
+        ? {
+            body: overrides.body,
+            contentType: generatedBody?.contentType ?? 'application/json',
+          }
+        : (generatedBody ?? undefined);
 
-    // Build request body for POST/PUT/PATCH
-    const requestBodyData = this.buildRequestBody(operation);
+    // Operation-level security replaces the document's; headers passed
+    // explicitly win over the ones derived from it
+    let auth;
+    try {
+      auth = await this.auth.authenticate(operation.security ?? api.security);
+    } catch (error) {
+      return {
+        path,
+        method,
+        valid: false,
+        responseTime: 0,
+        error: `Authentication failed - ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    const params = { ...auth.params, ...queryParams };
 
     const config: AxiosRequestConfig = {
       method: method as AxiosRequestConfig['method'],
       url,
       headers: {
-        ...this.headers,
-        Accept: 'application/json',
+        ...this.buildHeaders(operation, pathItem, values, { ...auth.headers, ...this.headers }),
+        ...overrides.headers,
+        Accept: this.getAcceptHeader(operation),
       },
-      params: Object.keys(queryParams).length > 0 ? queryParams : undefined,
+      params: Object.keys(params).length > 0 ? params : undefined,
       timeout: this.timeout,
       validateStatus: () => true, // Accept any status code
     };
 
-    // Add request body if present
-    if (requestBodyData && ['post', 'put', 'patch'].includes(method)) {
-      config.data = requestBodyData.body;
+    if (body) {
+      config.data = body.body;
       config.headers = {
         ...config.headers,
-        'Content-Type': requestBodyData.contentType,
+        'Content-Type': body.contentType,
       };
     }
 
-    try {
-      const response = await axios(config);
-      const responseTime = Date.now() - startTime;
+    const problems = this.validateRequest(operation, pathItem, {
+      query: params,
+      headers: config.headers as Record<string, unknown>,
+      body,
+      values,
+    });
+    if (problems.length > 0) {
+      return {
+        path,
+        method,
+        valid: false,
+        responseTime: 0,
+        error: `${SETUP_ERROR} - the generated request does not match the spec`,
+        details: problems,
+      };
+    }
+
+    const { response, error, responseTime, attempts } = await this.send(config);
 
+    if (response) {
       // Validate response (status, headers, body)
       const validationResult = this.validateFullResponse(response, operation);
+      const captureProblems = onResponse?.(response) ?? [];
+      const details = [...attempts, ...(validationResult.details ?? []), ...captureProblems];
 
       return {
         path,
         method,
-        valid: validationResult.valid,
+        valid: validationResult.valid && captureProblems.length === 0,
         statusCode: response.status,
         responseTime,
-        error: validationResult.error,
-        details: validationResult.details,
+        error:
+          validationResult.error ?? (captureProblems.length > 0 ? 'Capture failed' : undefined),
+        details: details.length > 0 ? details : undefined,
       };
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
+    }
 
-      if (error instanceof AxiosError) {
-        return {
-          path,
-          method,
-          valid: false,
-          responseTime,
-          error:
-            error.code === 'ECONNREFUSED'
-              ? 'Connection refused - is the server running?'
-              : error.message,
-        };
-      }
+    const details = attempts.length > 0 ? attempts : undefined;
 
+    if (error instanceof AxiosError) {
       return {
         path,
         method,
         valid: false,
         responseTime,
-        error: 'Unknown error occurred',
+        error:
+          error.code === 'ECONNREFUSED'
+            ? 'Connection refused - is the server running?'
+            : error.message,
+        details,
       };
     }
+
+    return {
+      path,
+      method,
+      valid: false,
+      responseTime,
+      error: 'Unknown error occurred',
+      details,
+    };
+  }
+
+  /**
+   * Send a request, retrying 429 responses, and network errors and 5xx
+   * responses of idempotent methods, with exponential backoff. A Retry-After header on 429 or 503 takes the place
+   * of the backoff, unless it asks for more than `maxRetryWait`: then the
+   * response is kept as it is. Every retried attempt is described in
+   * `attempts`.
+   */
+  private async send(config: AxiosRequestConfig): Promise<SendResult> {
+    const attempts: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const turn = this.limiter?.acquire();
+      if (turn) await turn;
+
+      // Only the last attempt is timed: not the wait for a pool slot or the
+      // rate limit, not building the request and not validating the response
+      const startTime = performance.now();
+      let outcome: string;
+      let wait = this.retryDelay * 2 ** (attempt - 1);
+
+      try {
+        const response = await axios(config);
+        const responseTime = Math.round(performance.now() - startTime);
+
+        if (attempt > this.retries || !isRetryStatus(response.status, config.method)) {
+          return { response, responseTime, attempts };
+        }
+
+        outcome = `status ${response.status}`;
+        const retryAfter = [429, 503].includes(response.status)
+          ? parseRetryAfter(response.headers?.['retry-after'])
+          : undefined;
+        if (retryAfter !== undefined && retryAfter > this.maxRetryWait) {
+          attempts.push(
+            `Attempt ${attempt}: ${outcome} - not retried, Retry-After of ${Math.round(retryAfter)}ms exceeds the ${this.maxRetryWait}ms limit`
+          );
+          return { response, responseTime, attempts };
+        }
+        if (retryAfter !== undefined) {
+          wait = retryAfter;
+          outcome += ' (Retry-After)';
+        }
+      } catch (error) {
+        const responseTime = Math.round(performance.now() - startTime);
+
+        // Errors with a response, or that are not from axios, will not go away
+        // on retry, and a request that failed midway may have been processed
+        if (
+          attempt > this.retries ||
+          !(error instanceof AxiosError) ||
+          error.response ||
+          !isIdempotent(config.method)
+        ) {
+          return { error, responseTime, attempts };
+        }
+        outcome = error.code ?? error.message;
+      }
+
+      attempts.push(`Attempt ${attempt}: ${outcome} - retried after ${wait}ms`);
+      await delay(wait);
+    }
   }
 
   /**
@@ -490,6 +1051,13 @@ export class ApiValidator {
     const hasDefaultMatch = 'default' in operation.responses;
 
     if (!hasExactMatch && !hasWildcardMatch && !hasDefaultMatch) {
+      if (statusCode === 429) {
+        const advice = this.retries === 0 ? 'retry with --retries or ' : '';
+        return {
+          valid: false,
+          error: `Rate-limited with status 429 - ${advice}send fewer requests with --rate`,
+        };
+      }
       return {
         valid: false,
         error: `Unexpected status code ${statusCode} - not defined in spec`,
@@ -546,13 +1114,19 @@ export class ApiValidator {
       // Validate header value against schema if present
       if (headerValue !== undefined && spec.schema) {
         const schema = spec.schema as OpenAPIV3.SchemaObject;
-        const validate = this.ajv.compile(schema);
-        const isValid = validate(headerValue);
+        let validation;
+        try {
+          validation = this.compiler.validate(schema, headerValue);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          errors.push({ header: headerName, message: `Invalid header schema: ${message}` });
+          continue;
+        }
 
-        if (!isValid && validate.errors) {
+        if (!validation.valid) {
           errors.push({
             header: headerName,
-            message: validate.errors.map((e: AjvError) => e.message).join(', '),
+            message: validation.errors.map(e => e.message).join(', '),
           });
         }
       }
@@ -585,11 +1159,16 @@ export class ApiValidator {
 
     // Validate response body against schema
     const schema = jsonContent.schema;
-    const validate = this.ajv.compile(schema);
-    const isValid = validate(responseData);
+    let validation;
+    try {
+      validation = this.compiler.validate(schema, responseData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { valid: false, details: [`Invalid response schema: ${message}`] };
+    }
 
-    if (!isValid && validate.errors) {
-      const details = validate.errors.map((err: AjvError) => {
+    if (!validation.valid) {
+      const details = validation.errors.map(err => {
         const path = err.instancePath || 'root';
         return `Body ${path}: ${err.message}`;
       });
@@ -0,0 +1,709 @@
+import type { OpenAPI, OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import type { ChangeSeverity, DiffResult, SpecChange } from '../utils/types.js';
+import { HTTP_METHODS, formatPath } from '../utils/openapi.js';
+
+type Schema = OpenAPIV3.SchemaObject;
+type Direction = 'request' | 'response';
+type Segments = Array<string | number>;
+type CompositionKeyword = (typeof COMPOSITION_KEYWORDS)[number];
+
+const COMPOSITION_KEYWORDS = ['allOf', 'oneOf', 'anyOf'] as const;
+
+interface ParameterLike {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: Schema;
+  type?: string;
+  enum?: unknown[];
+  deprecated?: boolean;
+}
+
+/**
+ * Compares two dereferenced specs and classifies every change by its
+ * impact on existing clients
+ */
+export class SpecDiffer {
+  private changes: SpecChange[] = [];
+  // Schema pairs being compared along the current descent, to stop at cycles
+  private ancestors = new WeakMap<object, WeakSet<object>>();
+
+  diff(oldApi: OpenAPI.Document, newApi: OpenAPI.Document): DiffResult {
+    this.changes = [];
+    this.ancestors = new WeakMap();
+
+    if (oldApi.info?.version !== newApi.info?.version) {
+      this.add(
+        'info',
+        'version-changed',
+        `API version changed from ${oldApi.info?.version} to ${newApi.info?.version}`,
+        ['info', 'version']
+      );
+    }
+
+    this.comparePaths(oldApi, newApi);
+
+    return {
+      changes: this.changes,
+      breaking: this.changes.filter(c => c.severity === 'breaking').length,
+      nonBreaking: this.changes.filter(c => c.severity === 'non-breaking').length,
+      info: this.changes.filter(c => c.severity === 'info').length,
+    };
+  }
+
+  private add(severity: ChangeSeverity, type: string, message: string, segments: Segments): void {
+    this.changes.push({ severity, type, message, path: formatPath(segments) });
+  }
+
+  private comparePaths(oldApi: OpenAPI.Document, newApi: OpenAPI.Document): void {
+    const oldPaths = (oldApi.paths ?? {}) as Record<string, Record<string, unknown>>;
+    const newPaths = (newApi.paths ?? {}) as Record<string, Record<string, unknown>>;
+
+    for (const path of Object.keys(oldPaths)) {
+      if (!(path in newPaths)) {
+        this.add('breaking', 'path-removed', `Path removed: ${path}`, ['paths', path]);
+        continue;
+      }
+
+      const oldItem = oldPaths[path] ?? {};
+      const newItem = newPaths[path] ?? {};
+
+      for (const method of HTTP_METHODS) {
+        const oldOp = oldItem[method] as OpenAPIV3.OperationObject | undefined;
+        const newOp = newItem[method] as OpenAPIV3.OperationObject | undefined;
+        const segments = ['paths', path, method];
+        const label = `${method.toUpperCase()} ${path}`;
+
+        if (oldOp && !newOp) {
+          this.add('breaking', 'operation-removed', `Operation removed: ${label}`, segments);
+        } else if (!oldOp && newOp) {
+          this.add('non-breaking', 'operation-added', `Operation added: ${label}`, segments);
+        } else if (oldOp && newOp) {
+          this.compareOperation(
+            label,
+            segments,
+            oldOp,
+            newOp,
+            (oldItem.parameters ?? []) as ParameterLike[],
+            (newItem.parameters ?? []) as ParameterLike[]
+          );
+        }
+      }
+    }
+
+    for (const path of Object.keys(newPaths)) {
+      if (!(path in oldPaths)) {
+        this.add('non-breaking', 'path-added', `Path added: ${path}`, ['paths', path]);
+      }
+    }
+  }
+
+  private compareOperation(
+    label: string,
+    segments: Segments,
+    oldOp: OpenAPIV3.OperationObject,
+    newOp: OpenAPIV3.OperationObject,
+    oldPathParams: ParameterLike[],
+    newPathParams: ParameterLike[]
+  ): void {
+    if (oldOp.operationId !== newOp.operationId) {
+      this.add(
+        'info',
+        'operation-id-changed',
+        `operationId changed from ${oldOp.operationId ?? '(none)'} to ${newOp.operationId ?? '(none)'} for ${label}`,
+        [...segments, 'operationId']
+      );
+    }
+
+    if (!oldOp.deprecated && newOp.deprecated) {
+      this.add('info', 'operation-deprecated', `Operation deprecated: ${label}`, [
+        ...segments,
+        'deprecated',
+      ]);
+    }
+
+    this.compareParameters(
+      label,
+      segments,
+      mergeParameters(oldPathParams, (oldOp.parameters ?? []) as ParameterLike[]),
+      mergeParameters(newPathParams, (newOp.parameters ?? []) as ParameterLike[])
+    );
+    this.compareRequestBody(label, segments, oldOp, newOp);
+    this.compareResponses(label, segments, oldOp, newOp);
+  }
+
+  private compareParameters(
+    label: string,
+    segments: Segments,
+    oldParams: Map<string, ParameterLike>,
+    newParams: Map<string, ParameterLike>
+  ): void {
+    for (const [key, oldParam] of oldParams) {
+      const paramSegments = [...segments, 'parameters', key];
+      const newParam = newParams.get(key);
+
+      // Body parameters (Swagger 2.0) are compared as request bodies
+      if (oldParam.in === 'body') continue;
+
+      if (!newParam) {
+        this.add(
+          'non-breaking',
+          'parameter-removed',
+          `${oldParam.in} parameter '${oldParam.name}' removed from ${label}`,
+          paramSegments
+        );
+        continue;
+      }
+
+      if (!oldParam.required && newParam.required) {
+        this.add(
+          'breaking',
+          'parameter-became-required',
+          `${newParam.in} parameter '${newParam.name}' is now required in ${label}`,
+          paramSegments
+        );
+      } else if (oldParam.required && !newParam.required) {
+        this.add(
+          'non-breaking',
+          'parameter-became-optional',
+          `${newParam.in} parameter '${newParam.name}' is now optional in ${label}`,
+          paramSegments
+        );
+      }
+
+      this.compareSchemas(
+        parameterSchema(oldParam),
+        parameterSchema(newParam),
+        [...paramSegments, 'schema'],
+        'request'
+      );
+    }
+
+    for (const [key, newParam] of newParams) {
+      if (oldParams.has(key) || newParam.in === 'body') continue;
+
+      const paramSegments = [...segments, 'parameters', key];
+      if (newParam.required) {
+        this.add(
+          'breaking',
+          'required-parameter-added',
+          `Required ${newParam.in} parameter '${newParam.name}' added to ${label}`,
+          paramSegments
+        );
+      } else {
+        this.add(
+          'non-breaking',
+          'parameter-added',
+          `Optional ${newParam.in} parameter '${newParam.name}' added to ${label}`,
+          paramSegments
+        );
+      }
+    }
+  }
+
+  private compareRequestBody(
+    label: string,
+    segments: Segments,
+    oldOp: OpenAPIV3.OperationObject,
+    newOp: OpenAPIV3.OperationObject
+  ): void {
+    const oldBody = requestBodyContent(oldOp);
+    const newBody = requestBodyContent(newOp);
+    const bodySegments = [...segments, 'requestBody'];
+
+    if (!oldBody && newBody) {
+      if (newBody.required) {
+        this.add(
+          'breaking',
+          'required-request-body-added',
+          `Required request body added to ${label}`,
+          bodySegments
+        );
+      } else {
+        this.add(
+          'non-breaking',
+          'request-body-added',
+          `Optional request body added to ${label}`,
+          bodySegments
+        );
+      }
+      return;
+    }
+
+    if (oldBody && !newBody) {
+      this.add(
+        'non-breaking',
+        'request-body-removed',
+        `Request body removed from ${label}`,
+        bodySegments
+      );
+      return;
+    }
+
+    if (!oldBody || !newBody) return;
+
+    if (!oldBody.required && newBody.required) {
+      this.add(
+        'breaking',
+        'request-body-became-required',
+        `Request body is now required in ${label}`,
+        bodySegments
+      );
+    }
+
+    for (const [mediaType, oldSchema] of Object.entries(oldBody.content)) {
+      const mediaSegments = [...bodySegments, 'content', mediaType];
+
+      if (!(mediaType in newBody.content)) {
+        this.add(
+          'breaking',
+          'request-media-type-removed',
+          `Request media type '${mediaType}' removed from ${label}`,
+          mediaSegments
+        );
+        continue;
+      }
+
+      this.compareSchemas(
+        oldSchema,
+        newBody.content[mediaType],
+        [...mediaSegments, 'schema'],
+        'request'
+      );
+    }
+
+    for (const mediaType of Object.keys(newBody.content)) {
+      if (!(mediaType in oldBody.content)) {
+        this.add(
+          'non-breaking',
+          'request-media-type-added',
+          `Request media type '${mediaType}' added to ${label}`,
+          [...bodySegments, 'content', mediaType]
+        );
+      }
+    }
+  }
+
+  private compareResponses(
+    label: string,
+    segments: Segments,
+    oldOp: OpenAPIV3.OperationObject,
+    newOp: OpenAPIV3.OperationObject
+  ): void {
+    const oldResponses = (oldOp.responses ?? {}) as Record<string, unknown>;
+    const newResponses = (newOp.responses ?? {}) as Record<string, unknown>;
+
+    for (const [status, oldResponse] of Object.entries(oldResponses)) {
+      const statusSegments = [...segments, 'responses', status];
+
+      if (!(status in newResponses)) {
+        this.add(
+          'breaking',
+          'response-status-removed',
+          `Response status ${status} removed from ${label}`,
+          statusSegments
+        );
+        continue;
+      }
+
+      const oldContent = responseContent(oldResponse);
+      const newContent = responseContent(newResponses[status]);
+
+      for (const [mediaType, oldSchema] of Object.entries(oldContent)) {
+        const mediaSegments = [...statusSegments, 'content', mediaType];
+
+        if (!(mediaType in newContent)) {
+          this.add(
+            'breaking',
+            'response-media-type-removed',
+            `Response media type '${mediaType}' removed from ${status} of ${label}`,
+            mediaSegments
+          );
+          continue;
+        }
+
+        this.compareSchemas(
+          oldSchema,
+          newContent[mediaType],
+          [...mediaSegments, 'schema'],
+          'response'
+        );
+      }
+
+      for (const mediaType of Object.keys(newContent)) {
+        if (!(mediaType in oldContent)) {
+          this.add(
+            'non-breaking',
+            'response-media-type-added',
+            `Response media type '${mediaType}' added to ${status} of ${label}`,
+            [...statusSegments, 'content', mediaType]
+          );
+        }
+      }
+    }
+
+    for (const status of Object.keys(newResponses)) {
+      if (!(status in oldResponses)) {
+        this.add(
+          'non-breaking',
+          'response-status-added',
+          `Response status ${status} added to ${label}`,
+          [...segments, 'responses', status]
+        );
+      }
+    }
+  }
+
+  /**
+   * Compare two schemas. For requests a change is breaking when the new
+   * schema accepts less than the old one; for responses when it may
+   * return something old clients do not expect.
+   */
+  private compareSchemas(
+    oldSchema: Schema | undefined,
+    newSchema: Schema | undefined,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    if (!oldSchema || !newSchema) return;
+
+    // Dereferenced documents may contain cycles. A schema shared through a
+    // $ref is the same object at every use, so it is compared again at each
+    // one, and only skipped when it is its own ancestor.
+    const ancestors = this.ancestors.get(oldSchema) ?? new WeakSet<object>();
+    if (ancestors.has(newSchema)) return;
+    ancestors.add(newSchema);
+    this.ancestors.set(oldSchema, ancestors);
+
+    try {
+      this.compareSchemaContents(oldSchema, newSchema, segments, direction);
+    } finally {
+      ancestors.delete(newSchema);
+    }
+  }
+
+  private compareSchemaContents(
+    oldSchema: Schema,
+    newSchema: Schema,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    const oldTypes = schemaTypes(oldSchema);
+    const newTypes = schemaTypes(newSchema);
+    const removedTypes = oldTypes.filter(t => !newTypes.includes(t));
+    const addedTypes = newTypes.filter(t => !oldTypes.includes(t));
+
+    if (oldTypes.length > 0 && (removedTypes.length > 0 || addedTypes.length > 0)) {
+      // Requests may widen types, responses may narrow them
+      const compatible =
+        direction === 'request' ? removedTypes.length === 0 : addedTypes.length === 0;
+      this.add(
+        compatible ? 'non-breaking' : 'breaking',
+        'type-changed',
+        `Type changed from ${oldTypes.join('|')} to ${newTypes.join('|') || 'any'}`,
+        segments
+      );
+      if (!compatible) return;
+    }
+
+    this.compareEnums(oldSchema, newSchema, segments, direction);
+    this.compareProperties(oldSchema, newSchema, segments, direction);
+    this.compareAdditionalProperties(oldSchema, newSchema, segments, direction);
+
+    for (const keyword of COMPOSITION_KEYWORDS) {
+      this.compareComposition(keyword, oldSchema, newSchema, segments, direction);
+    }
+
+    if (oldSchema.type === 'array' || 'items' in oldSchema) {
+      const oldItems = (oldSchema as OpenAPIV3.ArraySchemaObject).items as Schema | undefined;
+      const newItems = (newSchema as OpenAPIV3.ArraySchemaObject).items as Schema | undefined;
+      this.compareSchemas(oldItems, newItems, [...segments, 'items'], direction);
+    }
+  }
+
+  /**
+   * Branches are compared by position. An allOf branch adds constraints, so
+   * adding one narrows the schema; a oneOf/anyOf branch is an alternative,
+   * so adding one widens it.
+   */
+  private compareComposition(
+    keyword: CompositionKeyword,
+    oldSchema: Schema,
+    newSchema: Schema,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    const oldBranches = (oldSchema[keyword] ?? []) as Schema[];
+    const newBranches = (newSchema[keyword] ?? []) as Schema[];
+    const shared = Math.min(oldBranches.length, newBranches.length);
+
+    for (let index = 0; index < shared; index++) {
+      this.compareSchemas(
+        oldBranches[index],
+        newBranches[index],
+        [...segments, keyword, index],
+        direction
+      );
+    }
+
+    // Narrowing breaks requests, widening breaks responses
+    const severity = (narrows: boolean): ChangeSeverity =>
+      narrows === (direction === 'request') ? 'breaking' : 'non-breaking';
+    const addingNarrows = keyword === 'allOf';
+
+    for (let index = shared; index < oldBranches.length; index++) {
+      this.add(
+        severity(!addingNarrows),
+        'composition-branch-removed',
+        `${keyword} branch ${index} removed`,
+        [...segments, keyword, index]
+      );
+    }
+    for (let index = shared; index < newBranches.length; index++) {
+      this.add(
+        severity(addingNarrows),
+        'composition-branch-added',
+        `${keyword} branch ${index} added`,
+        [...segments, keyword, index]
+      );
+    }
+  }
+
+  private compareAdditionalProperties(
+    oldSchema: Schema,
+    newSchema: Schema,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    const oldExtra = oldSchema.additionalProperties;
+    const newExtra = newSchema.additionalProperties;
+    const extraSegments = [...segments, 'additionalProperties'];
+
+    if (typeof oldExtra === 'object' && typeof newExtra === 'object') {
+      this.compareSchemas(oldExtra as Schema, newExtra as Schema, extraSegments, direction);
+      return;
+    }
+
+    // Left out, `true` and a schema all allow properties that are not listed
+    const oldAllowed = oldExtra !== false;
+    const newAllowed = newExtra !== false;
+    if (oldAllowed && !newAllowed) {
+      this.add(
+        direction === 'request' ? 'breaking' : 'non-breaking',
+        'additional-properties-disallowed',
+        'Additional properties no longer allowed',
+        extraSegments
+      );
+    } else if (!oldAllowed && newAllowed) {
+      this.add(
+        direction === 'response' ? 'breaking' : 'non-breaking',
+        'additional-properties-allowed',
+        'Additional properties now allowed',
+        extraSegments
+      );
+    }
+  }
+
+  private compareEnums(
+    oldSchema: Schema,
+    newSchema: Schema,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    const oldEnum = oldSchema.enum;
+    const newEnum = newSchema.enum;
+    if (!oldEnum && !newEnum) return;
+
+    const enumSegments = [...segments, 'enum'];
+
+    if (oldEnum && !newEnum) {
+      this.add(
+        direction === 'request' ? 'non-breaking' : 'breaking',
+        'enum-removed',
+        'Enum constraint removed',
+        enumSegments
+      );
+      return;
+    }
+    if (!oldEnum && newEnum) {
+      this.add(
+        direction === 'request' ? 'breaking' : 'non-breaking',
+        'enum-added',
+        'Enum constraint added',
+        enumSegments
+      );
+      return;
+    }
+
+    const removed = oldEnum!.filter(v => !newEnum!.some(n => isEqual(n, v)));
+    const added = newEnum!.filter(v => !oldEnum!.some(o => isEqual(o, v)));
+
+    if (removed.length > 0) {
+      this.add(
+        direction === 'request' ? 'breaking' : 'non-breaking',
+        'enum-narrowed',
+        `Enum values removed: ${removed.map(v => JSON.stringify(v)).join(', ')}`,
+        enumSegments
+      );
+    }
+    if (added.length > 0) {
+      this.add(
+        direction === 'response' ? 'breaking' : 'non-breaking',
+        'enum-widened',
+        `Enum values added: ${added.map(v => JSON.stringify(v)).join(', ')}`,
+        enumSegments
+      );
+    }
+  }
+
+  private compareProperties(
+    oldSchema: Schema,
+    newSchema: Schema,
+    segments: Segments,
+    direction: Direction
+  ): void {
+    const oldProps = oldSchema.properties ?? {};
+    const newProps = newSchema.properties ?? {};
+    const oldRequired = new Set(oldSchema.required ?? []);
+    const newRequired = new Set(newSchema.required ?? []);
+
+    for (const [name, oldProp] of Object.entries(oldProps)) {
+      const propSegments = [...segments, 'properties', name];
+
+      if (!(name in newProps)) {
+        if (direction === 'response') {
+          this.add(
+            'breaking',
+            'response-property-removed',
+            `Response property '${name}' removed`,
+            propSegments
+          );
+        } else {
+          this.add(
+            'non-breaking',
+            'request-property-removed',
+            `Request property '${name}' removed`,
+            propSegments
+          );
+        }
+        continue;
+      }
+
+      if (direction === 'request' && !oldRequired.has(name) && newRequired.has(name)) {
+        this.add(
+          'breaking',
+          'request-property-became-required',
+          `Request property '${name}' is now required`,
+          propSegments
+        );
+      }
+      if (direction === 'response' && oldRequired.has(name) && !newRequired.has(name)) {
+        this.add(
+          'breaking',
+          'response-property-became-optional',
+          `Response property '${name}' is no longer guaranteed`,
+          propSegments
+        );
+      }
+
+      this.compareSchemas(oldProp as Schema, newProps[name] as Schema, propSegments, direction);
+    }
+
+    for (const name of Object.keys(newProps)) {
+      if (name in oldProps) continue;
+
+      const propSegments = [...segments, 'properties', name];
+      if (direction === 'request' && newRequired.has(name)) {
+        this.add(
+          'breaking',
+          'required-request-property-added',
+          `Required request property '${name}' added`,
+          propSegments
+        );
+      } else {
+        this.add(
+          'non-breaking',
+          `${direction}-property-added`,
+          `${direction === 'request' ? 'Request' : 'Response'} property '${name}' added`,
+          propSegments
+        );
+      }
+    }
+  }
+}
+
+function mergeParameters(
+  pathParams: ParameterLike[],
+  operationParams: ParameterLike[]
+): Map<string, ParameterLike> {
+  const params = new Map<string, ParameterLike>();
+  for (const param of [...pathParams, ...operationParams]) {
+    if (param?.name && param.in) {
+      params.set(`${param.in}:${param.name}`, param);
+    }
+  }
+  return params;
+}
+
+function parameterSchema(param: ParameterLike): Schema | undefined {
+  if (param.schema) return param.schema;
+  // Swagger 2.0 non-body parameters carry the schema inline
+  if (param.type) return { type: param.type, enum: param.enum } as Schema;
+  return undefined;
+}
+
+function requestBodyContent(
+  operation: OpenAPIV3.OperationObject
+): { required: boolean; content: Record<string, Schema | undefined> } | undefined {
+  if (operation.requestBody) {
+    const body = operation.requestBody as OpenAPIV3.RequestBodyObject;
+    const content: Record<string, Schema | undefined> = {};
+    for (const [mediaType, media] of Object.entries(body.content ?? {})) {
+      content[mediaType] = media.schema as Schema | undefined;
+    }
+    return { required: body.required ?? false, content };
+  }
+
+  // Swagger 2.0 body parameter
+  const bodyParam = ((operation.parameters ?? []) as unknown as OpenAPIV2.Parameter[]).find(
+    p => (p as OpenAPIV2.InBodyParameterObject).in === 'body'
+  ) as OpenAPIV2.InBodyParameterObject | undefined;
+  if (bodyParam) {
+    return { required: bodyParam.required ?? false, content: { body: bodyParam.schema as Schema } };
+  }
+
+  return undefined;
+}
+
+function responseContent(response: unknown): Record<string, Schema | undefined> {
+  const content: Record<string, Schema | undefined> = {};
+  if (!response || typeof response !== 'object') return content;
+
+  const v3 = response as OpenAPIV3.ResponseObject;
+  if (v3.content) {
+    for (const [mediaType, media] of Object.entries(v3.content)) {
+      content[mediaType] = media.schema as Schema | undefined;
+    }
+    return content;
+  }
+
+  // Swagger 2.0 response schema
+  const v2 = response as OpenAPIV2.ResponseObject;
+  if (v2.schema) {
+    content.body = v2.schema as unknown as Schema;
+  }
+  return content;
+}
+
+function schemaTypes(schema: Schema): string[] {
+  const type = (schema as { type?: string | string[] }).type;
+  const types = Array.isArray(type) ? [...type] : type ? [type] : [];
+  if ((schema as { nullable?: boolean }).nullable && !types.includes('null')) {
+    types.push('null');
+  }
+  return types.sort();
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,26 +1,99 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
-import type { OpenAPI, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
-import type { ValidationResult, SpecInfo, ValidationError } from '../utils/types.js';
+import { isDeepStrictEqual } from 'util';
+import type { OpenAPI, OpenAPIV3 } from 'openapi-types';
+import type {
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+  SpecValidatorOptions,
+  RuleSettings,
+  LintRule,
+} from '../utils/types.js';
+import { builtinRules } from '../rules/builtin.js';
+import { RuleRegistry } from '../rules/registry.js';
+import { loadSourceMap } from '../utils/loader.js';
+import {
+  formatPath,
+  getOperations,
+  getSpecInfo,
+  rebaseSchemaRefs,
+  toPointer,
+} from '../utils/openapi.js';
+import type { SpecSourceMap } from '../utils/source-map.js';
 
 export class SpecValidator {
   private strict: boolean;
+  private ruleSettings: RuleSettings;
+  private registry: RuleRegistry;
 
-  constructor(strict: boolean = false) {
-    this.strict = strict;
+  constructor(options: boolean | SpecValidatorOptions = false) {
+    const opts = typeof options === 'boolean' ? { strict: options } : options;
+
+    this.strict = opts.strict ?? false;
+    this.ruleSettings = opts.rules ?? {};
+    this.registry = new RuleRegistry([...builtinRules, ...(opts.customRules ?? [])]);
+    this.registry.checkSettings(this.ruleSettings);
+  }
+
+  /**
+   * List the built-in and custom rules this validator runs
+   */
+  listRules(): LintRule[] {
+    return this.registry.list();
+  }
+
+  /**
+   * Copy the spec for the parser, with refs in `$id` schemas made absolute
+   */
+  private prepare(spec: unknown): OpenAPI.Document {
+    const copy = structuredClone(spec);
+    rebaseSchemaRefs(copy);
+    return copy as OpenAPI.Document;
   }
 
-  async validate(spec: unknown, specPath: string): Promise<ValidationResult> {
+  /**
+   * Validate an already loaded spec. `specPath` is only used to resolve
+   * relative $refs and name files in locations, so it need not exist.
+   * `content` is the raw text of the spec, for locations when it was not
+   * read from `specPath`.
+   */
+  async validate(spec: unknown, specPath: string, content?: string): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
-    const warnings: string[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    // Positions are best effort: syntax errors are reported by the parser below
+    let sourceMap: SpecSourceMap | undefined;
+    try {
+      sourceMap = await loadSourceMap(specPath, content);
+      // A file on disk that differs from the spec would give wrong positions
+      if (content === undefined && !isDeepStrictEqual(sourceMap.document, spec)) {
+        sourceMap = undefined;
+      }
+    } catch {
+      sourceMap = undefined;
+    }
 
     try {
       // Step 1: Parse and resolve $ref pointers
       let api: OpenAPI.Document;
       try {
-        api = await SwaggerParser.dereference(specPath);
+        // SwaggerParser resolves in place, so the caller's spec is left alone
+        api = await SwaggerParser.dereference(specPath, this.prepare(spec), {});
       } catch (refError) {
-        const error = this.parseRefError(refError);
-        errors.push(error);
+        const brokenRefs = sourceMap?.findBrokenRefs() ?? [];
+        if (brokenRefs.length > 0) {
+          errors.push(
+            ...brokenRefs.map(({ ref, location }) => ({
+              type: 'ref-error' as const,
+              message: `Failed to resolve $ref pointer: ${ref}`,
+              path: ref,
+              details: refError instanceof Error ? refError.message : undefined,
+              location,
+            }))
+          );
+        } else {
+          errors.push(this.parseRefError(refError));
+        }
         return {
           valid: false,
           errors,
@@ -30,7 +103,7 @@ export class SpecValidator {
 
       // Step 2: Validate against OpenAPI schema
       try {
-        await SwaggerParser.validate(specPath, {
+        await SwaggerParser.validate(specPath, this.prepare(spec), {
           validate: {
             spec: true,
             schema: true,
@@ -46,17 +119,18 @@ export class SpecValidator {
       errors.push(...requiredFieldErrors);
 
       // Step 4: Extract spec information
-      const info = this.extractSpecInfo(api);
+      const info = getSpecInfo(api);
 
-      // Step 5: Perform additional validation checks
-      const additionalChecks = this.performAdditionalChecks(api);
-      warnings.push(...additionalChecks.warnings);
+      // Step 5: Run lint rules
+      const ruleResults = this.registry.run(api, this.ruleSettings, this.strict, {
+        document: spec,
+        externalRefs: sourceMap?.refsIntoEntry(),
+      });
+      errors.push(...ruleResults.errors);
+      warnings.push(...ruleResults.warnings);
 
-      if (this.strict) {
-        errors.push(...additionalChecks.errors.map(msg => ({
-          type: 'warning-as-error' as const,
-          message: msg,
-        })));
+      if (sourceMap) {
+        this.attachLocations([...errors, ...warnings], sourceMap);
       }
 
       return {
@@ -77,6 +151,20 @@ export class SpecValidator {
     }
   }
 
+  private attachLocations(
+    issues: Array<ValidationError | ValidationWarning>,
+    sourceMap: SpecSourceMap
+  ): void {
+    for (const issue of issues) {
+      if (issue.pointer !== undefined && !issue.location) {
+        issue.location = sourceMap.locate(issue.pointer);
+      }
+      for (const related of issue.related ?? []) {
+        related.location ??= sourceMap.locate(related.pointer);
+      }
+    }
+  }
+
   private parseRefError(error: unknown): ValidationError {
     if (error instanceof Error) {
       const message = error.message;
@@ -125,6 +213,10 @@ export class SpecValidator {
       const lines = message.split('\n').filter(line => line.trim());
 
       for (const line of lines) {
+        // Schema errors are prefixed with the JSON pointer of the offending node
+        const pointerMatch = line.trim().match(/^#(\/\S*)?\s/);
+        const pointer = pointerMatch ? pointerMatch[1] ?? '' : undefined;
+
         // Check for missing required field
         if (line.includes('required') || line.includes('must have')) {
           const fieldMatch = line.match(/["']([^"']+)["']/);
@@ -132,6 +224,7 @@ export class SpecValidator {
             type: 'missing-field',
             message: line.trim(),
             path: fieldMatch ? fieldMatch[1] : undefined,
+            pointer,
           });
         }
         // Check for invalid type
@@ -139,6 +232,7 @@ export class SpecValidator {
           errors.push({
             type: 'invalid-type',
             message: line.trim(),
+            pointer,
           });
         }
         // Check for invalid syntax
@@ -146,6 +240,7 @@ export class SpecValidator {
           errors.push({
             type: 'syntax-error',
             message: line.trim(),
+            pointer,
           });
         }
         // Generic validation error
@@ -153,6 +248,7 @@ export class SpecValidator {
           errors.push({
             type: 'validation-error',
             message: line.trim(),
+            pointer,
           });
         }
       }
@@ -200,171 +296,63 @@ export class SpecValidator {
   private checkRequiredFields(api: OpenAPI.Document): ValidationError[] {
     const errors: ValidationError[] = [];
 
-    // Check top-level required fields
-    if (!api.info) {
+    const missingField = (message: string, segments: Array<string | number>): void => {
       errors.push({
         type: 'missing-field',
-        message: 'Missing required field: info',
-        path: 'info',
+        message,
+        path: formatPath(segments),
+        pointer: toPointer(segments),
       });
+    };
+
+    // Check top-level required fields
+    if (!api.info) {
+      missingField('Missing required field: info', ['info']);
     } else {
       if (!api.info.title) {
-        errors.push({
-          type: 'missing-field',
-          message: 'Missing required field: info.title',
-          path: 'info.title',
-        });
+        missingField('Missing required field: info.title', ['info', 'title']);
       }
       if (!api.info.version) {
-        errors.push({
-          type: 'missing-field',
-          message: 'Missing required field: info.version',
-          path: 'info.version',
-        });
+        missingField('Missing required field: info.version', ['info', 'version']);
       }
     }
 
     // Check OpenAPI version field
     const hasOpenApiVersion = 'openapi' in api || 'swagger' in api;
     if (!hasOpenApiVersion) {
-      errors.push({
-        type: 'missing-field',
-        message: 'Missing required field: openapi (or swagger for v2)',
-        path: 'openapi',
-      });
+      missingField('Missing required field: openapi (or swagger for v2)', ['openapi']);
     }
 
     // Check paths for required fields
-    if (api.paths) {
-      for (const [path, pathItem] of Object.entries(api.paths)) {
-        if (!pathItem) continue;
-
-        const methods = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'] as const;
-
-        for (const method of methods) {
-          const operation = (pathItem as Record<string, unknown>)[method] as OpenAPIV3.OperationObject | undefined;
-
-          if (operation) {
-            // Check for required responses field
-            if (!operation.responses) {
-              errors.push({
-                type: 'missing-field',
-                message: `Missing required field: responses for ${method.toUpperCase()} ${path}`,
-                path: `paths.${path}.${method}.responses`,
-              });
-            }
-
-            // Check parameters for required fields
-            if (operation.parameters) {
-              operation.parameters.forEach((param, index) => {
-                const p = param as OpenAPIV3.ParameterObject;
-                if (!p.name) {
-                  errors.push({
-                    type: 'missing-field',
-                    message: `Missing required field: name for parameter ${index} in ${method.toUpperCase()} ${path}`,
-                    path: `paths.${path}.${method}.parameters[${index}].name`,
-                  });
-                }
-                if (!p.in) {
-                  errors.push({
-                    type: 'missing-field',
-                    message: `Missing required field: in for parameter ${index} in ${method.toUpperCase()} ${path}`,
-                    path: `paths.${path}.${method}.parameters[${index}].in`,
-                  });
-                }
-              });
-            }
-          }
-        }
+    for (const { path, method, operation } of getOperations(api)) {
+      // Check for required responses field
+      if (!operation.responses) {
+        missingField(
+          `Missing required field: responses for ${method.toUpperCase()} ${path}`,
+          ['paths', path, method, 'responses']
+        );
       }
-    }
 
-    return errors;
-  }
-
-  private extractSpecInfo(api: OpenAPI.Document): SpecInfo {
-    const info: SpecInfo = {
-      title: api.info.title,
-      version: api.info.version,
-    };
-
-    // Determine OpenAPI version
-    if ('openapi' in api) {
-      info.openApiVersion = (api as OpenAPIV3.Document | OpenAPIV3_1.Document).openapi;
-    } else if ('swagger' in api) {
-      info.openApiVersion = `Swagger ${(api as { swagger: string }).swagger}`;
-    }
-
-    // Count paths
-    if (api.paths) {
-      info.pathCount = Object.keys(api.paths).length;
-    }
-
-    // Count schemas
-    if ('components' in api && (api as OpenAPIV3.Document).components?.schemas) {
-      info.schemaCount = Object.keys((api as OpenAPIV3.Document).components!.schemas!).length;
-    } else if ('definitions' in api) {
-      const swaggerApi = api as { definitions?: Record<string, unknown> };
-      if (swaggerApi.definitions) {
-        info.schemaCount = Object.keys(swaggerApi.definitions).length;
-      }
-    }
-
-    return info;
-  }
-
-  private performAdditionalChecks(api: OpenAPI.Document): { errors: string[]; warnings: string[] } {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Check for empty paths
-    if (!api.paths || Object.keys(api.paths).length === 0) {
-      warnings.push('No paths defined in the specification');
-    }
-
-    // Check for missing descriptions
-    if (!api.info.description) {
-      warnings.push('Missing API description');
-    }
-
-    // Check paths for missing operation IDs and descriptions
-    if (api.paths) {
-      for (const [path, pathItem] of Object.entries(api.paths)) {
-        if (!pathItem) continue;
-
-        const methods = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'] as const;
-
-        for (const method of methods) {
-          const operation = (pathItem as Record<string, unknown>)[method] as OpenAPIV3.OperationObject | undefined;
-
-          if (operation) {
-            if (!operation.operationId) {
-              warnings.push(`Missing operationId for ${method.toUpperCase()} ${path}`);
-            }
-
-            if (!operation.summary && !operation.description) {
-              warnings.push(`Missing summary/description for ${method.toUpperCase()} ${path}`);
-            }
-
-            // Check for response definitions
-            if (!operation.responses || Object.keys(operation.responses).length === 0) {
-              errors.push(`No responses defined for ${method.toUpperCase()} ${path}`);
-            }
+      // Check parameters for required fields
+      if (operation.parameters) {
+        operation.parameters.forEach((param, index) => {
+          const p = param as OpenAPIV3.ParameterObject;
+          if (!p.name) {
+            missingField(
+              `Missing required field: name for parameter ${index} in ${method.toUpperCase()} ${path}`,
+              ['paths', path, method, 'parameters', index, 'name']
+            );
           }
-        }
-      }
-    }
-
-    // Check for security definitions
-    if ('components' in api) {
-      const openApi3 = api as OpenAPIV3.Document;
-      if (openApi3.security && openApi3.security.length > 0) {
-        if (!openApi3.components?.securitySchemes) {
-          errors.push('Security requirements defined but no security schemes found');
-        }
+          if (!p.in) {
+            missingField(
+              `Missing required field: in for parameter ${index} in ${method.toUpperCase()} ${path}`,
+              ['paths', path, method, 'parameters', index, 'in']
+            );
+          }
+        });
       }
     }
 
-    return { errors, warnings };
+    return errors;
   }
 }
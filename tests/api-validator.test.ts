@@ -394,4 +394,884 @@ describe('ApiValidator', () => {
       );
     });
   });
+
+  describe('OpenAPI 3.1', () => {
+    const spec31 = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        kind: { const: 'pet' },
+                        tag: { type: ['string', 'null'] },
+                        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'string' }] },
+                      },
+                      unevaluatedProperties: false,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      webhooks: {
+        newPet: {
+          post: { responses: { '200': { description: 'OK' } } },
+        },
+      },
+    };
+
+    const writeSpec = async (spec: unknown): Promise<string> => {
+      const specPath = join(TEST_DIR, 'api-spec-31.json');
+      await writeFile(specPath, JSON.stringify(spec, null, 2));
+      return specPath;
+    };
+
+    it('should accept responses matching 2020-12 keywords', async () => {
+      vi.mocked(axios).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        data: { kind: 'pet', tag: null, point: [1.5, 'north'] },
+      });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const results = await validator.validate(spec31, await writeSpec(spec31), ['/pets']);
+
+      expect(results[0].valid).toBe(true);
+    });
+
+    it('should reject responses violating const, prefixItems and unevaluatedProperties', async () => {
+      vi.mocked(axios).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        data: { kind: 'cat', point: ['north', 1.5], extra: true },
+      });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const results = await validator.validate(spec31, await writeSpec(spec31), ['/pets']);
+
+      expect(results[0].valid).toBe(false);
+      expect(results[0].details).toEqual(
+        expect.arrayContaining([
+          'Body /kind: must be equal to constant',
+          'Body /point/0: must be number',
+          'Body root: must NOT have unevaluated properties',
+        ])
+      );
+    });
+
+    it('should resolve $defs refs in schemas with an $id and report broken header schemas', async () => {
+      const tag = { $ref: '#/components/schemas/Tag' };
+      const specWithDefs = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        paths: {
+          '/tags': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  headers: {
+                    'X-Tag': { schema: tag },
+                    'X-Count': { schema: { type: 'nope' } },
+                  },
+                  content: {
+                    'application/json': {
+                      schema: { type: 'object', properties: { tag } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Tag: {
+              $id: 'https://example.com/schemas/tag',
+              allOf: [{ $ref: '#/$defs/Name' }],
+              $defs: { Name: { type: 'string', maxLength: 5 } },
+            },
+          },
+        },
+      };
+      vi.mocked(axios).mockResolvedValueOnce({
+        status: 200,
+        headers: { 'x-tag': 'kitten', 'x-count': '1' },
+        data: { tag: 'dog' },
+      });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const [result] = await validator.validate(specWithDefs, await writeSpec(specWithDefs));
+
+      expect(result.error).toBe('Response validation failed');
+      expect(result.details).toHaveLength(2);
+      expect(result.details?.[0]).toBe("Header 'X-Tag': must NOT have more than 5 characters");
+      expect(result.details?.[1]).toMatch(/^Header 'X-Count': Invalid header schema: /);
+    });
+
+    it('should list webhooks as skipped', async () => {
+      vi.mocked(axios).mockResolvedValueOnce({
+        status: 200,
+        headers: {},
+        data: { kind: 'pet' },
+      });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const results = await validator.validate(spec31, await writeSpec(spec31));
+
+      const webhook = results.find(r => r.path === 'webhook:newPet');
+      expect(webhook?.error).toContain('Skipped');
+      expect(webhook?.valid).toBe(true);
+    });
+
+    it('should keep OpenAPI 3.0 exclusive bounds semantics', async () => {
+      const spec30 = {
+        openapi: '3.0.3',
+        info: { title: 'Test API', version: '1.0.0' },
+        paths: {
+          '/count': {
+            get: {
+              responses: {
+                '200': {
+                  description: 'OK',
+                  content: {
+                    'application/json': {
+                      schema: { type: 'integer', minimum: 0, exclusiveMinimum: true, nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      vi.mocked(axios).mockResolvedValueOnce({ status: 200, headers: {}, data: 0 });
+      vi.mocked(axios).mockResolvedValueOnce({ status: 200, headers: {}, data: null });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const specPath = await writeSpec(spec30);
+      const [zero] = await validator.validate(spec30, specPath);
+      const [nullResult] = await validator.validate(spec30, specPath);
+
+      expect(zero.valid).toBe(false);
+      expect(zero.details).toEqual(['Body root: must be > 0']);
+      expect(nullResult.valid).toBe(true);
+    });
+  });
+
+  describe('Swagger 2.0', () => {
+    const spec20 = {
+      swagger: '2.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      basePath: '/v1',
+      consumes: ['application/json'],
+      produces: ['application/json'],
+      paths: {
+        '/pets/{petId}': {
+          parameters: [{ name: 'petId', in: 'path', required: true, type: 'integer', 'x-example': 7 }],
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                headers: { 'X-Rate-Limit': { type: 'integer' } },
+                schema: { $ref: '#/definitions/Pet' },
+              },
+            },
+          },
+        },
+        '/pets': {
+          post: {
+            parameters: [{ name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+        '/uploads': {
+          post: {
+            consumes: ['multipart/form-data'],
+            parameters: [
+              { name: 'file', in: 'formData', required: true, type: 'file' },
+              { name: 'label', in: 'formData', type: 'string', 'x-example': 'avatar' },
+            ],
+            responses: { '204': { description: 'Stored' } },
+          },
+        },
+      },
+      definitions: {
+        Pet: {
+          type: 'object',
+          required: ['id', 'name'],
+          properties: {
+            id: { type: 'integer' },
+            name: { type: 'string' },
+          },
+        },
+      },
+    };
+
+    const writeSpec = async (spec: unknown): Promise<string> => {
+      const specPath = join(TEST_DIR, 'api-spec-20.json');
+      await writeFile(specPath, JSON.stringify(spec, null, 2));
+      return specPath;
+    };
+
+    it('should prefix basePath and resolve parameters without schemas', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({
+        status: 200,
+        headers: { 'x-rate-limit': 'lots' },
+        data: { id: 7 },
+      });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const results = await validator.validate(spec20, await writeSpec(spec20), ['/pets/{petId}']);
+
+      expect(mockAxios).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: 'http://localhost:3000/v1/pets/7' })
+      );
+      expect(results[0].valid).toBe(false);
+      expect(results[0].details).toEqual(
+        expect.arrayContaining([
+          "Header 'X-Rate-Limit': must be integer",
+          "Body root: must have required property 'name'",
+        ])
+      );
+    });
+
+    it('should not repeat a basePath already in the base URL', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: { id: 7, name: 'Rex' } });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000/v1/' });
+      const results = await validator.validate(spec20, await writeSpec(spec20), ['/pets/{petId}']);
+
+      expect(mockAxios).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: 'http://localhost:3000/v1/pets/7' })
+      );
+      expect(results[0].valid).toBe(true);
+    });
+
+    it('should send body and formData parameters', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 201, headers: {}, data: '' });
+      mockAxios.mockResolvedValueOnce({ status: 204, headers: {}, data: '' });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const results = await validator.validate(spec20, await writeSpec(spec20), [
+        '/pets',
+        '/uploads',
+      ]);
+
+      expect(results.every(r => r.valid)).toBe(true);
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'http://localhost:3000/v1/pets',
+          data: { id: 1, name: 'string' },
+          headers: expect.objectContaining({ 'Content-Type': 'application/json' }),
+        })
+      );
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'http://localhost:3000/v1/uploads',
+          data: { file: 'string', label: 'avatar' },
+          headers: expect.objectContaining({ 'Content-Type': 'multipart/form-data' }),
+        })
+      );
+    });
+  });
+
+  describe('concurrency', () => {
+    const ok = { description: 'OK' };
+    const poolSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Pool API', version: '1.0.0' },
+      paths: {
+        '/a': { get: { responses: { '200': ok } }, post: { responses: { '200': ok } } },
+        '/b': { get: { responses: { '200': ok } } },
+        '/c': { get: { 'x-serial': true, responses: { '200': ok } } },
+        '/d': {
+          get: { responses: { '200': ok } },
+          delete: { 'x-serial': false, responses: { '200': ok } },
+        },
+      },
+    };
+    const specPath = join(TEST_DIR, 'pool-spec.json');
+
+    // Answers after a per-path delay and records which requests overlapped
+    const serve = (delays: Record<string, number>) => {
+      let inFlight = 0;
+      const overlaps: Record<string, number> = {};
+      let maxInFlight = 0;
+
+      vi.mocked(axios).mockImplementation((async (config: { method: string; url: string }) => {
+        const path = new URL(config.url).pathname;
+        const key = `${config.method.toUpperCase()} ${path}`;
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        overlaps[key] = Math.max(overlaps[key] ?? 0, inFlight);
+        await new Promise(done => setTimeout(done, delays[path] ?? 0));
+        overlaps[key] = Math.max(overlaps[key], inFlight);
+        inFlight--;
+        return { status: 200, headers: {}, data: '' };
+      }) as unknown as typeof axios);
+
+      return { overlaps, maxInFlight: () => maxInFlight };
+    };
+
+    it('should keep spec order and bound the requests in flight', async () => {
+      const server = serve({ '/a': 40, '/b': 20, '/c': 0, '/d': 10 });
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000', concurrency: 2 });
+
+      const results = await validator.validate(poolSpec, specPath);
+
+      expect(results.map(r => `${r.method} ${r.path}`)).toEqual([
+        'get /a',
+        'post /a',
+        'get /b',
+        'get /c',
+        'get /d',
+        'delete /d',
+      ]);
+      expect(server.maxInFlight()).toBe(2);
+    });
+
+    it('should run serial operations with nothing else in flight', async () => {
+      const server = serve({ '/a': 20, '/b': 20, '/c': 20, '/d': 20 });
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        concurrency: 4,
+        serial: ['POST', 'DELETE'],
+      });
+
+      await validator.validate(poolSpec, specPath);
+
+      expect(server.overlaps['POST /a']).toBe(1);
+      expect(server.overlaps['GET /c']).toBe(1);
+      // x-serial: false opts an operation back into the pool
+      expect(server.overlaps['DELETE /d']).toBe(2);
+      expect(server.maxInFlight()).toBe(2);
+    });
+
+    it('should not count time spent waiting for a free slot', async () => {
+      serve({ '/a': 40, '/b': 40, '/c': 40, '/d': 40 });
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+
+      const results = await validator.validate(poolSpec, specPath, ['/a', '/b']);
+
+      for (const result of results) {
+        expect(result.responseTime).toBeGreaterThanOrEqual(35);
+        expect(result.responseTime).toBeLessThan(80);
+      }
+    });
+  });
+
+  describe('retries', () => {
+    const specPath = join(TEST_DIR, 'api-spec.json');
+    const user = { status: 200, headers: {}, data: { id: 1, name: 'John' } };
+
+    beforeEach(() => {
+      vi.mocked(axios).mockReset();
+    });
+
+    it('should retry server errors with exponential backoff', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 503, headers: {}, data: '' });
+      mockAxios.mockResolvedValueOnce({ status: 502, headers: {}, data: '' });
+      mockAxios.mockResolvedValueOnce(user);
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 2,
+        retryDelay: 5,
+      });
+      const [result] = await validator.validate(testSpec, specPath, ['/users/{id}']);
+
+      expect(mockAxios).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ valid: true, statusCode: 200 });
+      expect(result.details).toEqual([
+        'Attempt 1: status 503 - retried after 5ms',
+        'Attempt 2: status 502 - retried after 10ms',
+      ]);
+    });
+
+    it('should retry network errors but report the last one', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockRejectedValueOnce(new AxiosError('socket hang up', 'ECONNRESET'));
+      mockAxios.mockRejectedValueOnce(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED'));
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 1,
+        retryDelay: 1,
+      });
+      const [result] = await validator.validate(testSpec, specPath, ['/users/{id}']);
+
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Connection refused - is the server running?');
+      expect(result.details).toEqual(['Attempt 1: ECONNRESET - retried after 1ms']);
+    });
+
+    it('should wait for Retry-After instead of the backoff on 429', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '0' }, data: '' });
+      mockAxios.mockResolvedValueOnce(user);
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 1,
+        retryDelay: 60_000,
+      });
+      const [result] = await validator.validate(testSpec, specPath, ['/users/{id}']);
+
+      expect(result.valid).toBe(true);
+      expect(result.details).toEqual(['Attempt 1: status 429 (Retry-After) - retried after 0ms']);
+    });
+
+    it('should give up instead of waiting longer than the Retry-After limit', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({
+        status: 503,
+        headers: { 'retry-after': '3600' },
+        data: '',
+      });
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 3,
+        maxRetryWait: 1000,
+      });
+      const [result] = await validator.validate(testSpec, specPath, ['/users/{id}']);
+
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ valid: false, statusCode: 503 });
+      expect(result.details?.[0]).toBe(
+        'Attempt 1: status 503 - not retried, Retry-After of 3600000ms exceeds the 1000ms limit'
+      );
+    });
+
+    it('should not retry by default', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: {}, data: '' });
+
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+      const [result] = await validator.validate(testSpec, specPath, ['/users/{id}']);
+
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+      expect(result.details).toEqual([
+        'Rate-limited with status 429 - retry with --retries or send fewer requests with --rate',
+      ]);
+    });
+
+    it('should only retry server errors and network errors of idempotent methods', async () => {
+      const sent: string[] = [];
+      vi.mocked(axios).mockImplementation((async (config: { method: string }) => {
+        sent.push(config.method);
+        if (config.method === 'post') {
+          throw new AxiosError('socket hang up', 'ECONNRESET');
+        }
+        return { status: 503, headers: {}, data: '' };
+      }) as unknown as typeof axios);
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 2,
+        retryDelay: 1,
+      });
+      const results = await validator.validate(testSpec, specPath, ['/users']);
+
+      expect(sent.filter(method => method === 'get')).toHaveLength(3);
+      expect(sent.filter(method => method === 'post')).toHaveLength(1);
+      expect(results.find(r => r.method === 'post')?.details).toBeUndefined();
+    });
+
+    it('should retry rate-limited requests of any method', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios.mockResolvedValueOnce({ status: 429, headers: {}, data: '' });
+      mockAxios.mockResolvedValueOnce({ status: 201, headers: {}, data: { id: 1, name: 'Test' } });
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        retries: 1,
+        retryDelay: 1,
+      });
+      const [result] = await validator.validate(
+        { ...testSpec, paths: { '/users': { post: testSpec.paths['/users'].post } } },
+        specPath
+      );
+
+      expect(mockAxios).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ method: 'post', valid: true, statusCode: 201 });
+    });
+
+    it('should space requests to the configured rate', async () => {
+      const started: number[] = [];
+      vi.mocked(axios).mockImplementation((async () => {
+        started.push(performance.now());
+        return { status: 200, headers: {}, data: [] };
+      }) as unknown as typeof axios);
+
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        concurrency: 3,
+        rate: 20,
+      });
+      await validator.validate(testSpec, specPath, ['/users', '/users/{id}']);
+
+      expect(started).toHaveLength(3);
+      for (let i = 1; i < started.length; i++) {
+        // 50ms apart, less a little for the mock's own overhead
+        expect(started[i] - started[i - 1]).toBeGreaterThanOrEqual(40);
+      }
+    });
+  });
+
+  describe('authentication', () => {
+    const ok = { '200': { description: 'OK' } };
+    const securedSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Secured API', version: '1.0.0' },
+      security: [{ bearerAuth: [] }],
+      paths: {
+        '/me': { get: { responses: ok } },
+        '/reports': { get: { security: [{ apiKey: [] }], responses: ok } },
+        '/health': { get: { security: [], responses: ok } },
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer' },
+          apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        },
+      },
+    };
+    const specPath = join(TEST_DIR, 'secured-spec.json');
+
+    beforeEach(() => {
+      vi.mocked(axios).mockReset();
+      vi.mocked(axios).mockResolvedValue({ status: 200, headers: {}, data: '' });
+    });
+
+    const headersFor = (url: string) =>
+      vi
+        .mocked(axios)
+        .mock.calls.map(([config]) => config as { url: string; headers: object })
+        .find(config => config.url === url)?.headers;
+
+    it('should send each operation only the scheme it declares', async () => {
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        auth: { bearerAuth: { token: 'abc' }, apiKey: { value: 'k1' } },
+      });
+
+      const results = await validator.validate(securedSpec, specPath);
+
+      expect(results.every(r => r.valid)).toBe(true);
+      expect(headersFor('http://localhost:3000/me')).toMatchObject({
+        Authorization: 'Bearer abc',
+      });
+      expect(headersFor('http://localhost:3000/reports')).toMatchObject({ 'X-API-Key': 'k1' });
+      expect(headersFor('http://localhost:3000/reports')).not.toHaveProperty('Authorization');
+      expect(headersFor('http://localhost:3000/health')).not.toHaveProperty('Authorization');
+    });
+
+    it('should let explicit headers override derived credentials', async () => {
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        headers: { Authorization: 'Bearer manual' },
+        auth: { bearerAuth: { token: 'abc' } },
+      });
+
+      await validator.validate(securedSpec, specPath, ['/me']);
+
+      expect(headersFor('http://localhost:3000/me')).toMatchObject({
+        Authorization: 'Bearer manual',
+      });
+    });
+  });
+
+  describe('request validation', () => {
+    const ok = { '200': { description: 'OK' } };
+    const requestSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Request API', version: '1.0.0' },
+      paths: {
+        '/search': {
+          get: {
+            parameters: [
+              {
+                name: 'sort',
+                in: 'query',
+                required: true,
+                schema: { type: 'string', enum: ['asc', 'desc'] },
+                example: 'newest',
+              },
+              { name: 'X-Tenant', in: 'header', required: true, schema: { type: 'string' } },
+            ],
+            responses: ok,
+          },
+        },
+        '/codes/{code}': {
+          parameters: [
+            {
+              name: 'code',
+              in: 'path',
+              required: true,
+              schema: { type: 'string', pattern: '^[A-Z]{3}$' },
+              example: 'ABC',
+            },
+          ],
+          post: {
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['name'],
+                    properties: { name: { type: 'string' } },
+                  },
+                  example: { label: 'no name' },
+                },
+              },
+            },
+            responses: ok,
+          },
+        },
+      },
+    };
+    const specPath = join(TEST_DIR, 'request-spec.json');
+
+    beforeEach(() => {
+      vi.mocked(axios).mockReset();
+      vi.mocked(axios).mockResolvedValue({ status: 200, headers: {}, data: '' });
+    });
+
+    it('should report invalid generated requests as test setup errors without sending them', async () => {
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+
+      const [search, create] = await validator.validate(requestSpec, specPath);
+
+      expect(vi.mocked(axios)).not.toHaveBeenCalled();
+      expect(search).toMatchObject({
+        valid: false,
+        error: 'Test setup error - the generated request does not match the spec',
+        details: ["Query parameter 'sort': must be equal to one of the allowed values"],
+      });
+      expect(create.details).toEqual(["Request body: must have required property 'name'"]);
+    });
+
+    it('should accept requests completed by explicit headers', async () => {
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        headers: { 'x-tenant': 'acme' },
+      });
+      const fixed = structuredClone(requestSpec);
+      fixed.paths['/search'].get.parameters[0].example = 'asc';
+
+      const [search] = await validator.validate(fixed, specPath, ['/search']);
+
+      expect(search).toMatchObject({ valid: true, statusCode: 200 });
+      expect(vi.mocked(axios)).toHaveBeenCalledTimes(1);
+      // The explicit header is not sent a second time under the parameter's spelling
+      const { headers } = vi.mocked(axios).mock.calls[0][0];
+      expect(headers).toMatchObject({ 'x-tenant': 'acme' });
+      expect(headers).not.toHaveProperty('X-Tenant');
+    });
+
+    it('should generate header and cookie parameters and send bodies for any method', async () => {
+      const validator = new ApiValidator({
+        baseUrl: 'http://localhost:3000',
+        headers: { Cookie: 'theme=dark' },
+      });
+      const spec = {
+        openapi: '3.0.3',
+        info: { title: 'Request API', version: '1.0.0' },
+        paths: {
+          '/items': {
+            delete: {
+              parameters: [
+                { name: 'X-Tenant', in: 'header', required: true, example: 'acme' },
+                { name: 'X-Trace', in: 'header', schema: { type: 'string' } },
+                { name: 'session', in: 'cookie', required: true, schema: { type: 'string' } },
+              ],
+              requestBody: {
+                required: true,
+                content: { 'application/json': { example: { ids: [1, 2] } } },
+              },
+              responses: ok,
+            },
+          },
+        },
+      };
+
+      const [result] = await validator.validate(spec, specPath);
+
+      expect(result).toMatchObject({ valid: true, statusCode: 200 });
+      const config = vi.mocked(axios).mock.calls[0][0];
+      expect(config.data).toEqual({ ids: [1, 2] });
+      expect(config.headers).toMatchObject({
+        'X-Tenant': 'acme',
+        Cookie: 'theme=dark; session=string',
+        'Content-Type': 'application/json',
+      });
+      expect(config.headers).not.toHaveProperty('X-Trace');
+    });
+  });
+
+  describe('scenarios', () => {
+    const pet = {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: { id: { type: 'integer' }, name: { type: 'string' } },
+    };
+    const petIdParam = {
+      name: 'petId',
+      in: 'path',
+      required: true,
+      schema: { type: 'integer' },
+      example: 1,
+    };
+    const petBody = {
+      required: true,
+      content: {
+        'application/json': {
+          schema: { type: 'object', properties: { name: { type: 'string' } } },
+          example: { name: 'Generated' },
+        },
+      },
+    };
+    const petSpec = {
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          post: {
+            operationId: 'createPet',
+            requestBody: petBody,
+            responses: {
+              '201': { description: 'Created', content: { 'application/json': { schema: pet } } },
+            },
+          },
+        },
+        '/pets/{petId}': {
+          parameters: [petIdParam],
+          get: {
+            operationId: 'getPet',
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema: pet } } },
+            },
+          },
+          put: {
+            operationId: 'updatePet',
+            requestBody: petBody,
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema: pet } } },
+            },
+          },
+          delete: {
+            operationId: 'deletePet',
+            responses: { '204': { description: 'Deleted' } },
+          },
+        },
+      },
+    };
+    const specPath = join(TEST_DIR, 'pet-spec.json');
+
+    beforeEach(() => {
+      vi.mocked(axios).mockReset();
+    });
+
+    it('should chain captured values through the steps', async () => {
+      const mockAxios = vi.mocked(axios);
+      mockAxios
+        .mockResolvedValueOnce({ status: 201, headers: {}, data: { id: 42, name: 'Rex' } })
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: { id: 42, name: 'Rex' } })
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: { id: 42, name: 'Max' } })
+        .mockResolvedValueOnce({ status: 204, headers: {}, data: '' });
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+
+      const results = await validator.runScenario(petSpec, specPath, {
+        name: 'Pet lifecycle',
+        steps: [
+          {
+            operationId: 'createPet',
+            name: 'create',
+            body: { name: 'Rex' },
+            capture: { petId: '$.body.id', petName: '$.body.name' },
+          },
+          { operationId: 'getPet', params: { petId: '${petId}' } },
+          {
+            operationId: 'updatePet',
+            params: { petId: '${petId}' },
+            body: { name: 'Max', previous: '${petName}' },
+          },
+          { operationId: 'deletePet', params: { petId: '${petId}' } },
+        ],
+      });
+
+      expect(results.map(r => [r.step, r.method, r.valid])).toEqual([
+        ['create', 'post', true],
+        ['getPet', 'get', true],
+        ['updatePet', 'put', true],
+        ['deletePet', 'delete', true],
+      ]);
+      expect(mockAxios.mock.calls.map(([config]) => [config.method, config.url])).toEqual([
+        ['post', 'http://localhost:3000/pets'],
+        ['get', 'http://localhost:3000/pets/42'],
+        ['put', 'http://localhost:3000/pets/42'],
+        ['delete', 'http://localhost:3000/pets/42'],
+      ]);
+      expect(mockAxios.mock.calls[0][0].data).toEqual({ name: 'Rex' });
+      expect(mockAxios.mock.calls[2][0].data).toEqual({ name: 'Max', previous: 'Rex' });
+    });
+
+    it('should still validate each response against the spec', async () => {
+      vi.mocked(axios).mockResolvedValueOnce({ status: 201, headers: {}, data: { name: 'Rex' } });
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+
+      const [create, get] = await validator.runScenario(petSpec, specPath, {
+        steps: [
+          { operationId: 'createPet', capture: { petId: '$.body.id' } },
+          { operationId: 'getPet', params: { petId: '${petId}' } },
+        ],
+      });
+
+      expect(create.valid).toBe(false);
+      expect(create.details).toContain("Capture 'petId': $.body.id matched nothing");
+      expect(create.details?.some(d => d.includes("must have required property 'id'"))).toBe(true);
+      expect(get).toMatchObject({
+        valid: false,
+        error: 'Test setup error - Variable "petId" has not been captured by an earlier step',
+      });
+      expect(vi.mocked(axios)).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report unknown operations and parameters as setup errors', async () => {
+      const validator = new ApiValidator({ baseUrl: 'http://localhost:3000' });
+
+      const [unknown, extra] = await validator.runScenario(petSpec, specPath, {
+        steps: [
+          { operationId: 'adoptPet' },
+          { operationId: 'deletePet', params: { petId: 1, force: true } },
+        ],
+      });
+
+      expect(unknown).toMatchObject({
+        valid: false,
+        step: 'adoptPet',
+        error: 'Test setup error - no operation with operationId "adoptPet"',
+      });
+      expect(extra.details).toEqual(["Parameter 'force': not defined for this operation"]);
+      expect(vi.mocked(axios)).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  return {
+    ...actual,
+    default: vi.fn(),
+  };
+});
+
+import axios from 'axios';
+import type { OpenAPIV3 } from 'openapi-types';
+import { AuthProvider, authEnvPrefix } from '../src/utils/auth.js';
+
+const schemes: Record<string, OpenAPIV3.SecuritySchemeObject> = {
+  bearerAuth: { type: 'http', scheme: 'bearer' },
+  basicAuth: { type: 'http', scheme: 'basic' },
+  queryKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+  session: { type: 'apiKey', in: 'cookie', name: 'sid' },
+  tenant: { type: 'apiKey', in: 'cookie', name: 'tenant' },
+  oauth: {
+    type: 'oauth2',
+    flows: {
+      clientCredentials: { tokenUrl: '/oauth/token', scopes: { read: '', write: '' } },
+      password: { tokenUrl: 'https://auth.example.com/token', scopes: {} },
+    },
+  },
+};
+
+const options = { baseUrl: 'http://localhost:3000/api', timeout: 1000, env: {} };
+
+describe('AuthProvider', () => {
+  beforeEach(() => {
+    vi.mocked(axios).mockReset();
+  });
+
+  it('should apply bearer, basic and apiKey credentials', async () => {
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: {
+        bearerAuth: { token: 'abc' },
+        basicAuth: { username: 'ann', password: 'secret' },
+        queryKey: { value: 'k1' },
+        session: { value: 's1' },
+        tenant: { value: 't1' },
+      },
+    });
+
+    expect(await auth.authenticate([{ bearerAuth: [] }])).toEqual({
+      headers: { Authorization: 'Bearer abc' },
+      params: {},
+    });
+    expect((await auth.authenticate([{ basicAuth: [] }])).headers.Authorization).toBe(
+      `Basic ${Buffer.from('ann:secret').toString('base64')}`
+    );
+    expect(await auth.authenticate([{ queryKey: [], session: [], tenant: [] }])).toEqual({
+      headers: { Cookie: 'sid=s1; tenant=t1' },
+      params: { api_key: 'k1' },
+    });
+  });
+
+  it('should use the first requirement that has credentials', async () => {
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: { queryKey: { value: 'k1' } },
+    });
+
+    expect(await auth.authenticate([{ bearerAuth: [] }, { queryKey: [] }])).toEqual({
+      headers: {},
+      params: { api_key: 'k1' },
+    });
+    expect(await auth.authenticate([{ bearerAuth: [], queryKey: [] }])).toEqual({
+      headers: {},
+      params: {},
+    });
+    expect(await auth.authenticate(undefined)).toEqual({ headers: {}, params: {} });
+  });
+
+  it('should read credentials from environment variables', async () => {
+    expect(authEnvPrefix('bearerAuth')).toBe('OPENAPI_AUTH_BEARER_AUTH_');
+
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: { bearerAuth: { token: 'from-config' } },
+      env: { OPENAPI_AUTH_BEARER_AUTH_TOKEN: 'from-env' },
+    });
+
+    expect((await auth.authenticate([{ bearerAuth: [] }])).headers.Authorization).toBe(
+      'Bearer from-env'
+    );
+  });
+
+  it('should fetch and cache client-credentials tokens', async () => {
+    const mockAxios = vi.mocked(axios);
+    mockAxios.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { access_token: 'tok-1', expires_in: 3600 },
+    });
+
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: { oauth: { clientId: 'app', clientSecret: 'shh' } },
+    });
+
+    const [first, second] = await Promise.all([
+      auth.authenticate([{ oauth: ['read', 'write'] }]),
+      auth.authenticate([{ oauth: ['write', 'read'] }]),
+    ]);
+
+    expect(first.headers.Authorization).toBe('Bearer tok-1');
+    expect(second.headers.Authorization).toBe('Bearer tok-1');
+    expect(mockAxios).toHaveBeenCalledTimes(1);
+    expect(mockAxios).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'post',
+        url: 'http://localhost:3000/oauth/token',
+        data: 'grant_type=client_credentials&client_id=app&client_secret=shh&scope=read+write',
+      })
+    );
+  });
+
+  it('should renew expired tokens and use the password flow for users', async () => {
+    const mockAxios = vi.mocked(axios);
+    mockAxios.mockResolvedValueOnce({
+      status: 200,
+      headers: {},
+      data: { access_token: 'old', expires_in: 0.001 },
+    });
+    mockAxios.mockResolvedValueOnce({ status: 200, headers: {}, data: { access_token: 'new' } });
+
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: { oauth: { username: 'ann', password: 'secret' } },
+    });
+
+    expect((await auth.authenticate([{ oauth: [] }])).headers.Authorization).toBe('Bearer old');
+    await new Promise(done => setTimeout(done, 5));
+    expect((await auth.authenticate([{ oauth: [] }])).headers.Authorization).toBe('Bearer new');
+    expect(mockAxios).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        url: 'https://auth.example.com/token',
+        data: 'grant_type=password&username=ann&password=secret',
+      })
+    );
+  });
+
+  it('should report failed token requests', async () => {
+    vi.mocked(axios).mockResolvedValueOnce({
+      status: 401,
+      headers: {},
+      data: { error: 'invalid_client' },
+    });
+
+    const auth = new AuthProvider(schemes, {
+      ...options,
+      credentials: { oauth: { clientId: 'app' } },
+    });
+
+    await expect(auth.authenticate([{ oauth: [] }])).rejects.toThrow(
+      'Token request to http://localhost:3000/oauth/token failed with status 401: invalid_client'
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { SpecBundler } from '../src/utils/bundler.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-bundle');
+
+const entrySpec = `openapi: '3.0.3'
+info:
+  title: Pets
+  version: '1.0.0'
+paths:
+  /pets:
+    get:
+      parameters:
+        - $ref: './parameters.yaml#/limit'
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: './schemas/pet.yaml'
+  /tree:
+    get:
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: './schemas/node.yaml'
+components:
+  schemas:
+    Pet:
+      $ref: './schemas/pet.yaml'
+    Error:
+      type: object
+      properties:
+        message:
+          type: string
+`;
+
+const petSchema = `type: object
+properties:
+  id:
+    type: integer
+  category:
+    $ref: './category.yaml'
+`;
+
+const categorySchema = `type: object
+properties:
+  name:
+    type: string
+`;
+
+const nodeSchema = `type: object
+properties:
+  children:
+    type: array
+    items:
+      $ref: '#'
+`;
+
+const parameters = `limit:
+  name: limit
+  in: query
+  schema:
+    type: integer
+`;
+
+describe('SpecBundler', () => {
+  beforeAll(async () => {
+    await mkdir(join(TEST_DIR, 'schemas'), { recursive: true });
+    await writeFile(join(TEST_DIR, 'openapi.yaml'), entrySpec);
+    await writeFile(join(TEST_DIR, 'parameters.yaml'), parameters);
+    await writeFile(join(TEST_DIR, 'schemas', 'pet.yaml'), petSchema);
+    await writeFile(join(TEST_DIR, 'schemas', 'category.yaml'), categorySchema);
+    await writeFile(join(TEST_DIR, 'schemas', 'node.yaml'), nodeSchema);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should hoist external refs into components', async () => {
+    const { document } = await new SpecBundler().bundle(join(TEST_DIR, 'openapi.yaml'));
+    const components = document.components as Record<string, Record<string, unknown>>;
+    const pets = (document.paths as Record<string, any>)['/pets'].get;
+
+    expect(pets.parameters[0]).toEqual({ $ref: '#/components/parameters/limit' });
+    expect(components.parameters.limit).toMatchObject({ name: 'limit', in: 'query' });
+    expect(pets.responses['200'].content['application/json'].schema.items).toEqual({
+      $ref: '#/components/schemas/Pet',
+    });
+    expect(components.schemas.Pet).toMatchObject({
+      type: 'object',
+      properties: { category: { $ref: '#/components/schemas/category' } },
+    });
+    expect(components.schemas.category).toMatchObject({ type: 'object' });
+    expect(components.schemas.Error).toBeDefined();
+  });
+
+  it('should report reference cycles', async () => {
+    const { document, cycles } = await new SpecBundler().bundle(join(TEST_DIR, 'openapi.yaml'));
+    const components = document.components as Record<string, Record<string, any>>;
+
+    expect(components.schemas.node.properties.children.items).toEqual({
+      $ref: '#/components/schemas/node',
+    });
+    expect(cycles).toEqual(['schemas/node -> schemas/node']);
+  });
+
+  it('should inline everything but cycles in dereference mode', async () => {
+    const { document, cycles } = await new SpecBundler().bundle(join(TEST_DIR, 'openapi.yaml'), {
+      dereference: true,
+    });
+    const pets = (document.paths as Record<string, any>)['/pets'].get;
+
+    expect(pets.parameters[0]).toMatchObject({ name: 'limit', in: 'query' });
+    expect(pets.responses['200'].content['application/json'].schema.items.properties.id).toEqual({
+      type: 'integer',
+    });
+    expect(JSON.stringify(document)).toContain('#/components/schemas/node');
+    expect(cycles).toHaveLength(1);
+  });
+
+  it('should fail on unresolvable refs', async () => {
+    await writeFile(
+      join(TEST_DIR, 'broken.yaml'),
+      entrySpec.replace('./parameters.yaml#/limit', './parameters.yaml#/offset')
+    );
+
+    await expect(new SpecBundler().bundle(join(TEST_DIR, 'broken.yaml'))).rejects.toThrow(
+      'Cannot resolve $ref'
+    );
+  });
+});
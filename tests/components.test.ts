@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { findUnusedComponents, pruneComponents } from '../src/utils/components.js';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-components');
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  security: [{ apiKey: [] }],
+  paths: {
+    '/pets': {
+      get: {
+        parameters: [{ $ref: '#/components/parameters/limit' }],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+            },
+          },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        properties: { owner: { $ref: '#/components/schemas/Owner' } },
+      },
+      Owner: { type: 'object' },
+      Legacy: { type: 'object', properties: { tag: { $ref: '#/components/schemas/Tag' } } },
+      Tag: { type: 'string' },
+    },
+    parameters: {
+      limit: { name: 'limit', in: 'query', schema: { type: 'integer' } },
+      offset: { name: 'offset', in: 'query', schema: { type: 'integer' } },
+    },
+    responses: {
+      Error: { description: 'Error' },
+    },
+    requestBodies: {
+      NewPet: { content: {} },
+    },
+    headers: {
+      RateLimit: { schema: { type: 'integer' } },
+    },
+    examples: {
+      Rex: { value: { name: 'Rex' } },
+    },
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-Key' },
+      oauth: { type: 'http', scheme: 'bearer' },
+    },
+  },
+};
+
+function names(document: unknown, externalRefs?: string[]): string[] {
+  return findUnusedComponents(document, externalRefs).map(c => c.path.join('/'));
+}
+
+describe('findUnusedComponents', () => {
+  it('should report unused components of every kind, including orphans', () => {
+    expect(names(spec)).toEqual([
+      'components/schemas/Legacy',
+      'components/schemas/Tag',
+      'components/parameters/offset',
+      'components/requestBodies/NewPet',
+      'components/headers/RateLimit',
+      'components/securitySchemes/oauth',
+      'components/examples/Rex',
+    ]);
+  });
+
+  it('should count refs from other files as used', () => {
+    expect(names(spec, ['#/components/schemas/Legacy'])).not.toContain('components/schemas/Tag');
+  });
+
+  it('should follow discriminator mappings', () => {
+    const document = JSON.parse(JSON.stringify(spec));
+    document.components.schemas.Pet.discriminator = {
+      propertyName: 'kind',
+      mapping: { legacy: 'Legacy' },
+    };
+
+    expect(names(document)).not.toContain('components/schemas/Legacy');
+  });
+
+  it('should analyse Swagger 2.0 definitions', () => {
+    const swagger = {
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: { '200': { description: 'OK', schema: { $ref: '#/definitions/Pet' } } },
+          },
+        },
+      },
+      definitions: { Pet: { type: 'object' }, Unused: { type: 'object' } },
+      securityDefinitions: { basic: { type: 'basic' } },
+    };
+
+    expect(names(swagger)).toEqual(['definitions/Unused', 'securityDefinitions/basic']);
+  });
+});
+
+describe('pruneComponents', () => {
+  it('should remove unused components and empty containers', () => {
+    const pruned = pruneComponents(spec, findUnusedComponents(spec)) as typeof spec;
+
+    expect(Object.keys(pruned.components)).toEqual([
+      'schemas',
+      'parameters',
+      'responses',
+      'securitySchemes',
+    ]);
+    expect(Object.keys(pruned.components.schemas)).toEqual(['Pet', 'Owner']);
+    expect(findUnusedComponents(pruned)).toEqual([]);
+    expect(spec.components.schemas.Legacy).toBeDefined();
+  });
+});
+
+describe('no-unused-components rule', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, 'openapi.json'), JSON.stringify(spec, null, 2));
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should warn by default and fail when configured as an error', async () => {
+    const specPath = join(TEST_DIR, 'openapi.json');
+    const lenient = await new SpecValidator().validate(spec, specPath);
+    const strict = await new SpecValidator({ rules: { 'no-unused-components': 'error' } }).validate(
+      spec,
+      specPath
+    );
+
+    const warnings = lenient.warnings?.filter(w => w.rule === 'no-unused-components') ?? [];
+    expect(warnings).toHaveLength(7);
+    expect(warnings[0]).toMatchObject({
+      message: 'Unused schema "Legacy"',
+      pointer: '/components/schemas/Legacy',
+    });
+    expect(warnings[0].location?.line).toBeGreaterThan(1);
+    expect(strict.valid).toBe(false);
+  });
+});
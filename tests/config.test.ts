@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { loadConfig, findConfigFile } from '../src/utils/config.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-config');
+const NESTED_DIR = join(TEST_DIR, 'services', 'users');
+
+const yamlConfig = `spec: ./api/openapi.yaml
+baseUrl: http://localhost:3000
+headers:
+  Authorization: Bearer token
+timeout: 2000
+endpoints:
+  - /users
+strict: true
+rules:
+  info-description: 'off'
+  operation-operationId: error
+customRules:
+  - ./rules/custom.mjs
+`;
+
+describe('Config', () => {
+  beforeAll(async () => {
+    await mkdir(NESTED_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, '.openapi-validator.yaml'), yamlConfig);
+    await writeFile(
+      join(TEST_DIR, 'other.config.json'),
+      JSON.stringify({ baseUrl: 'https://staging.example.com' })
+    );
+    await writeFile(join(TEST_DIR, 'broken.json'), JSON.stringify({ timeout: 'soon' }));
+    await writeFile(
+      join(TEST_DIR, 'bad-rules.json'),
+      JSON.stringify({ rules: { 'info-description': ['loud', {}] } })
+    );
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should find a config file in a parent directory', async () => {
+      const configPath = await findConfigFile(NESTED_DIR);
+
+      expect(configPath).toBe(join(TEST_DIR, '.openapi-validator.yaml'));
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should load and resolve paths relative to the config file', async () => {
+      const { config, configPath } = await loadConfig(undefined, NESTED_DIR);
+
+      expect(configPath).toBe(join(TEST_DIR, '.openapi-validator.yaml'));
+      expect(config).toMatchObject({
+        spec: join(TEST_DIR, 'api', 'openapi.yaml'),
+        baseUrl: 'http://localhost:3000',
+        headers: { Authorization: 'Bearer token' },
+        timeout: 2000,
+        endpoints: ['/users'],
+        strict: true,
+        rules: { 'info-description': 'off', 'operation-operationId': 'error' },
+        customRules: [join(TEST_DIR, 'rules', 'custom.mjs')],
+      });
+    });
+
+    it('should load an explicit config path', async () => {
+      const { config } = await loadConfig('other.config.json', TEST_DIR);
+
+      expect(config).toEqual({ baseUrl: 'https://staging.example.com' });
+    });
+
+    it('should throw for a missing explicit config file', async () => {
+      await expect(loadConfig('missing.json', TEST_DIR)).rejects.toThrow('Config file not found');
+    });
+
+    it('should reject values of the wrong type', async () => {
+      await expect(loadConfig('broken.json', TEST_DIR)).rejects.toThrow(
+        '"timeout" must be a number'
+      );
+    });
+
+    it('should reject invalid rule severities', async () => {
+      await expect(loadConfig('bad-rules.json', TEST_DIR)).rejects.toThrow(
+        '"rules.info-description" must be off, warn or error'
+      );
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import type { OpenAPIV2 } from 'openapi-types';
+import { SpecConverter } from '../src/utils/converter.js';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+
+const swagger = {
+  swagger: '2.0',
+  info: { title: 'Pets', version: '1.0.0', description: 'Pet store' },
+  host: 'api.example.com',
+  basePath: '/v1',
+  schemes: ['https', 'http'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  securityDefinitions: {
+    basic: { type: 'basic' },
+    oauth: {
+      type: 'oauth2',
+      flow: 'application',
+      tokenUrl: 'https://auth.example.com/token',
+      scopes: { read: 'Read pets' },
+    },
+  },
+  security: [{ oauth: ['read'] }],
+  parameters: {
+    limit: { name: 'limit', in: 'query', type: 'integer', maximum: 100, exclusiveMaximum: true },
+    petBody: { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+  },
+  responses: {
+    NotFound: { description: 'Not found', schema: { $ref: '#/definitions/Error' } },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        summary: 'List pets',
+        parameters: [{ $ref: '#/parameters/limit' }],
+        responses: {
+          '200': {
+            description: 'OK',
+            schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+          },
+          '404': { $ref: '#/responses/NotFound' },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        summary: 'Create a pet',
+        parameters: [{ $ref: '#/parameters/petBody' }],
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/pets/{petId}/photo': {
+      parameters: [{ name: 'petId', in: 'path', required: true, type: 'string' }],
+      post: {
+        operationId: 'uploadPhoto',
+        summary: 'Upload a photo',
+        consumes: ['multipart/form-data'],
+        parameters: [{ name: 'file', in: 'formData', type: 'file', required: true }],
+        responses: { '204': { description: 'Uploaded' } },
+      },
+    },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      discriminator: 'kind',
+      required: ['kind'],
+      properties: {
+        kind: { type: 'string' },
+        tag: { type: 'string', 'x-nullable': true },
+      },
+    },
+    Error: { type: 'object', properties: { message: { type: 'string' } } },
+  },
+} as unknown as OpenAPIV2.Document;
+
+describe('SpecConverter', () => {
+  it('should move definitions, shared parameters and responses into components', () => {
+    const api = new SpecConverter().convert(swagger) as unknown as Record<string, any>;
+
+    expect(api.openapi).toBe('3.0.3');
+    expect(api).not.toHaveProperty('definitions');
+    expect(api.components.schemas.Pet.discriminator).toEqual({ propertyName: 'kind' });
+    expect(api.components.schemas.Pet.properties.tag).toEqual({ type: 'string', nullable: true });
+    expect(api.components.parameters).toEqual({
+      limit: {
+        name: 'limit',
+        in: 'query',
+        schema: { type: 'integer', maximum: 100, exclusiveMaximum: true },
+      },
+    });
+    expect(api.components.responses.NotFound.content).toEqual({
+      'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+    });
+
+    const list = api.paths['/pets'].get;
+    expect(list.parameters).toEqual([{ $ref: '#/components/parameters/limit' }]);
+    expect(list.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+    expect(list.responses['200'].content['application/json'].schema.items).toEqual({
+      $ref: '#/components/schemas/Pet',
+    });
+  });
+
+  it('should turn body and formData parameters into request bodies', () => {
+    const api = new SpecConverter().convert(swagger) as unknown as Record<string, any>;
+
+    expect(api.paths['/pets'].post.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+    });
+    expect(api.paths['/pets/{petId}/photo'].post.requestBody.content).toEqual({
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: { file: { type: 'string', format: 'binary' } },
+          required: ['file'],
+        },
+      },
+    });
+  });
+
+  it('should build servers and security schemes', () => {
+    const api = new SpecConverter().convert(swagger) as unknown as Record<string, any>;
+
+    expect(api.servers).toEqual([
+      { url: 'https://api.example.com/v1' },
+      { url: 'http://api.example.com/v1' },
+    ]);
+    expect(api.components.securitySchemes).toEqual({
+      basic: { type: 'http', scheme: 'basic' },
+      oauth: {
+        type: 'oauth2',
+        flows: {
+          clientCredentials: {
+            tokenUrl: 'https://auth.example.com/token',
+            scopes: { read: 'Read pets' },
+          },
+        },
+      },
+    });
+    expect(api.security).toEqual([{ oauth: ['read'] }]);
+  });
+
+  it('should use JSON Schema 2020-12 keywords for 3.1', () => {
+    const api = new SpecConverter().convert(swagger, '3.1') as unknown as Record<string, any>;
+
+    expect(api.openapi).toBe('3.1.0');
+    expect(api.components.schemas.Pet.properties.tag).toEqual({ type: ['string', 'null'] });
+    expect(api.components.parameters.limit.schema).toEqual({
+      type: 'integer',
+      exclusiveMaximum: 100,
+    });
+  });
+
+  it('should keep nullability of schemas without a type for 3.1', () => {
+    const api = new SpecConverter().convert(
+      {
+        swagger: '2.0',
+        info: { title: 'Pets', version: '1.0.0' },
+        paths: {},
+        definitions: {
+          Person: { type: 'object' },
+          Owner: { $ref: '#/definitions/Person', 'x-nullable': true },
+          Mixed: { allOf: [{ $ref: '#/definitions/Person' }], 'x-nullable': true },
+          Color: { enum: ['red', 'blue'], 'x-nullable': true },
+          Size: { type: 'string', enum: ['S', 'M'], 'x-nullable': true },
+        },
+      } as unknown as OpenAPIV2.Document,
+      '3.1'
+    ) as unknown as Record<string, any>;
+
+    const { Owner, Mixed, Color, Size } = api.components.schemas;
+    expect(Owner).toEqual({
+      anyOf: [{ $ref: '#/components/schemas/Person' }, { type: 'null' }],
+    });
+    expect(Mixed).toEqual({
+      anyOf: [{ allOf: [{ $ref: '#/components/schemas/Person' }] }, { type: 'null' }],
+    });
+    expect(Color).toEqual({ enum: ['red', 'blue', null] });
+    expect(Size).toEqual({ type: ['string', 'null'], enum: ['S', 'M', null] });
+  });
+
+  it('should produce specs that pass validation', async () => {
+    const converter = new SpecConverter();
+    const specPath = join(process.cwd(), 'converted.yaml');
+
+    for (const target of ['3.0', '3.1'] as const) {
+      const result = await new SpecValidator().validate(
+        converter.convert(swagger, target),
+        specPath
+      );
+      expect(result.errors).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import type { OpenAPI } from 'openapi-types';
+import { RuleRegistry } from '../src/rules/registry.js';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+import { loadSpec, parseSpec } from '../src/utils/loader.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-examples');
+
+const spec = `openapi: '3.0.3'
+info:
+  title: Pets
+  description: Pets API
+  version: '1.0.0'
+paths:
+  /pets/{petId}:
+    get:
+      operationId: getPet
+      summary: Get a pet
+      parameters:
+        - name: petId
+          in: path
+          required: true
+          example: seven
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+              examples:
+                rex:
+                  value:
+                    id: 1
+                    name: Rex
+                nameless:
+                  value:
+                    id: 2
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+        age:
+          type: integer
+          minimum: 0
+          example: -1
+`;
+
+function rulesOnly(api: unknown) {
+  const registry = new RuleRegistry();
+  const settings = Object.fromEntries(
+    registry.list().map(rule => [rule.id, rule.id === 'example-schema-match' ? 'error' : 'off'])
+  );
+  return registry.run(api as OpenAPI.Document, settings as never).errors;
+}
+
+describe('example-schema-match rule', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, 'openapi.yaml'), spec);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should report invalid parameter, media type and schema examples with pointers', async () => {
+    const validator = new SpecValidator();
+    const result = await validator.validate(
+      await loadSpec(join(TEST_DIR, 'openapi.yaml')),
+      join(TEST_DIR, 'openapi.yaml')
+    );
+    const errors = result.errors.filter(e => e.rule === 'example-schema-match');
+
+    expect(result.valid).toBe(false);
+    expect(errors.map(e => e.pointer)).toEqual([
+      '/components/schemas/Pet/properties/age/example',
+      '/paths/~1pets~1{petId}/get/parameters/0/example',
+      '/paths/~1pets~1{petId}/get/responses/200/content/application~1json/examples/nameless/value',
+    ]);
+    expect(errors[1].message).toBe('Example does not match its schema: must be integer');
+    expect(errors[2].message).toContain("must have required property 'name'");
+    expect(errors[1].location).toEqual({
+      file: join(TEST_DIR, 'openapi.yaml'),
+      line: 15,
+      column: 11,
+    });
+  });
+
+  it('should accept valid examples', () => {
+    const errors = rulesOnly({
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [{ name: 'limit', in: 'query', example: 10, schema: { type: 'integer' } }],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { type: 'string', nullable: true },
+                    example: null,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should keep unquoted YAML dates as strings', () => {
+    const api = parseSpec(
+      [
+        "openapi: '3.0.3'",
+        'info: { title: Pets, version: 1.0.0 }',
+        'components:',
+        '  schemas:',
+        '    Birthday:',
+        '      type: string',
+        '      format: date',
+        '      example: 2024-01-01',
+        '    Seen:',
+        '      type: string',
+        '      format: date-time',
+        '      example: 2024-01-01T10:00:00Z',
+      ].join('\n'),
+      'openapi.yaml'
+    );
+
+    expect(rulesOnly(api)).toEqual([]);
+  });
+
+  it('should check Swagger 2.0 x-example and response examples', () => {
+    const errors = rulesOnly({
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [{ name: 'limit', in: 'query', type: 'integer', 'x-example': 'ten' }],
+            responses: {
+              '200': {
+                description: 'OK',
+                schema: { type: 'array', items: { type: 'string' } },
+                examples: { 'application/json': ['a', 2] },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    expect(errors.map(e => e.pointer)).toEqual([
+      '/paths/~1pets/get/parameters/0/x-example',
+      '/paths/~1pets/get/responses/200/examples/application~1json',
+    ]);
+    expect(errors[1].message).toBe('Example does not match its schema at /1: must be string');
+  });
+
+  it('should validate 3.1 schema examples lists with the 2020-12 dialect', () => {
+    const errors = rulesOnly({
+      openapi: '3.1.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      components: {
+        schemas: {
+          Tag: { type: ['string', 'null'], examples: ['red', null, 3] },
+        },
+      },
+    });
+
+    expect(errors.map(e => e.pointer)).toEqual(['/components/schemas/Tag/examples/2']);
+  });
+});
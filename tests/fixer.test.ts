@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import { SpecFixer, generateOperationId } from '../src/utils/fixer.js';
+import { unifiedDiff } from '../src/utils/line-diff.js';
+
+const spec = `# Pets API
+openapi: "3.0.3"
+info:
+  title: Pets   # shown in the portal
+  version: '1.0.0'
+
+paths:
+  /pets/{petId}:
+    parameters:
+    - name: petId
+      in: path
+      schema: {type: string}
+    get:
+      summary: Get a pet
+      responses:
+        '200':
+          description: OK
+    delete:
+      tags: [pets]
+      responses: {}
+  /pets:
+    post:
+      operationId: getPetsByPetId
+      summary: Add a pet
+`;
+
+describe('SpecFixer', () => {
+  it('should fix findings while keeping comments, quoting and layout', () => {
+    const { content, fixes } = new SpecFixer().fix(spec, 'yaml');
+
+    expect(content).toBe(`# Pets API
+openapi: "3.0.3"
+info:
+  title: Pets   # shown in the portal
+  version: '1.0.0'
+
+paths:
+  /pets/{petId}:
+    parameters:
+    - name: petId
+      in: path
+      required: true
+      schema: {type: string}
+    get:
+      summary: Get a pet
+      operationId: getPetsByPetId2
+      responses:
+        '200':
+          description: OK
+    delete:
+      tags: [pets]
+      operationId: deletePetsByPetId
+      responses:
+        default:
+          description: Default response
+  /pets:
+    post:
+      operationId: getPetsByPetId
+      summary: Add a pet
+      responses:
+        default:
+          description: Default response
+`);
+    expect(fixes.map(f => [f.rule, f.pointer])).toEqual([
+      ['operation-operationId', '/paths/~1pets~1{petId}/get/operationId'],
+      ['operation-operationId', '/paths/~1pets~1{petId}/delete/operationId'],
+      ['path-params-required', '/paths/~1pets~1{petId}/parameters/0/required'],
+      ['operation-responses', '/paths/~1pets~1{petId}/delete/responses'],
+      ['operation-responses', '/paths/~1pets/post/responses'],
+    ]);
+  });
+
+  it('should skip fixes for rules that are switched off', () => {
+    const { fixes } = new SpecFixer({
+      rules: { 'operation-operationId': 'off', 'operation-responses': ['off', {}] },
+    }).fix(spec, 'yaml');
+
+    expect(fixes.map(f => f.rule)).toEqual(['path-params-required']);
+  });
+
+  it('should fix JSON specs with their indentation', () => {
+    const json = JSON.stringify(
+      { openapi: '3.0.3', info: { title: 'Pets', version: '1' }, paths: { '/pets': { get: {} } } },
+      null,
+      4
+    );
+    const { content } = new SpecFixer().fix(json, 'json');
+
+    expect(JSON.parse(content).paths['/pets'].get).toEqual({
+      operationId: 'getPets',
+      responses: { default: { description: 'Default response' } },
+    });
+    expect(content).toContain('\n    "info": {\n        "title"');
+  });
+
+  it('should leave block scalars and other untouched lines byte-identical', () => {
+    const yaml = `openapi: 3.0.3
+info:
+  title: Pets
+  description: >
+    A folded description
+    over two lines.
+  version: 1.0.0
+paths:
+  /pets/{id}:
+    get:
+      description: |
+        Literal
+          block
+      parameters:
+        - {name: id, in: path, required: false}
+      # shown in the portal
+      responses:   {}
+    put: {summary: Replace}
+`;
+    const { content } = new SpecFixer().fix(yaml, 'yaml');
+
+    expect(content).toBe(`openapi: 3.0.3
+info:
+  title: Pets
+  description: >
+    A folded description
+    over two lines.
+  version: 1.0.0
+paths:
+  /pets/{id}:
+    get:
+      description: |
+        Literal
+          block
+      operationId: getPetsById
+      parameters:
+        - {name: id, in: path, required: true}
+      # shown in the portal
+      responses:
+        default:
+          description: Default response
+    put: {summary: Replace, operationId: putPetsById, responses: { default: { description: Default response } }}
+`);
+  });
+
+  it('should keep the spacing of JSON specs', () => {
+    const json = `{
+  "openapi": "3.0.3",
+  "info": { "title":  "Pets", "version": "1" },
+  "paths": {
+    "/pets": {
+      "get": {
+        "summary" :  "List"
+      }
+    }
+  }
+}
+`;
+    const { content } = new SpecFixer().fix(json, 'json');
+
+    expect(content).toBe(`{
+  "openapi": "3.0.3",
+  "info": { "title":  "Pets", "version": "1" },
+  "paths": {
+    "/pets": {
+      "get": {
+        "summary" :  "List",
+        "operationId": "getPets",
+        "responses": {
+          "default": {
+            "description": "Default response"
+          }
+        }
+      }
+    }
+  }
+}
+`);
+  });
+
+  it('should return the content untouched when there is nothing to fix', () => {
+    const clean = 'openapi: 3.0.3\npaths: {}\n';
+    expect(new SpecFixer().fix(clean, 'yaml')).toEqual({ content: clean, fixes: [] });
+  });
+
+  it('should generate operationIds from the method and path', () => {
+    expect(generateOperationId('GET', '/users/{user_id}/pet-owners')).toBe(
+      'getUsersByUserIdPetOwners'
+    );
+    expect(generateOperationId('post', '/')).toBe('post');
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should show changed lines with context in hunks', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const after = before.replace('b', 'B').replace('i', 'i\nnew');
+
+    expect(unifiedDiff(before, after, 'spec.yaml')).toBe(`--- a/spec.yaml
++++ b/spec.yaml
+@@ -1,5 +1,5 @@
+ a
+-b
++B
+ c
+ d
+ e
+@@ -7,4 +7,5 @@
+ g
+ h
+ i
++new
+ j
+`);
+    expect(unifiedDiff(before, before, 'spec.yaml')).toBe('');
+  });
+});
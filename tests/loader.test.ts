@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { writeFile, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
-import { loadSpec, isYamlFile, isJsonFile } from '../src/utils/loader.js';
+import { Readable } from 'stream';
+import {
+  loadSpec,
+  isYamlFile,
+  isJsonFile,
+  parseSpec,
+  readStdin,
+  resolveSpecPath,
+} from '../src/utils/loader.js';
 
 const TEST_DIR = join(process.cwd(), 'test-fixtures');
 
@@ -82,6 +90,38 @@ describe('Loader', () => {
     });
   });
 
+  describe('parseSpec', () => {
+    it('should tell JSON from YAML by content when there is no extension', () => {
+      expect(parseSpec('{"openapi": "3.0.3"}')).toEqual({ openapi: '3.0.3' });
+      expect(parseSpec('openapi: 3.0.3\ninfo: {title: Test}\n')).toEqual({
+        openapi: '3.0.3',
+        info: { title: 'Test' },
+      });
+    });
+
+    it('should report YAML syntax errors for content without an extension', () => {
+      expect(() => parseSpec('openapi: [3.0.3\n')).toThrow(/flow collection/);
+    });
+
+    it('should pick the parser by extension when there is one', () => {
+      expect(() => parseSpec('openapi: 3.0.3', 'spec.json')).toThrow();
+      expect(parseSpec('{"openapi": "3.0.3"}', 'spec.yaml')).toEqual({ openapi: '3.0.3' });
+    });
+  });
+
+  describe('stdin', () => {
+    it('should read the whole stream', async () => {
+      const stream = Readable.from(['openapi: 3.0.3\n', 'info: {}\n']);
+      expect(await readStdin(stream)).toBe('openapi: 3.0.3\ninfo: {}\n');
+    });
+
+    it('should resolve a spec read from stdin against the base path', () => {
+      expect(resolveSpecPath('-', '/specs')).toBe(join('/specs', 'stdin'));
+      expect(resolveSpecPath('-')).toBe(join(process.cwd(), 'stdin'));
+      expect(resolveSpecPath('api.yaml', '/specs')).toBe('api.yaml');
+    });
+  });
+
   describe('isYamlFile', () => {
     it('should return true for .yaml files', () => {
       expect(isYamlFile('spec.yaml')).toBe(true);
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import type { OpenAPI } from 'openapi-types';
+import { RuleRegistry } from '../src/rules/registry.js';
+import { namingRules } from '../src/rules/naming.js';
+import type { RuleSettings } from '../src/utils/types.js';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/petOwners/{owner_id}/': {
+      parameters: [{ name: 'owner_id', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        operationId: 'ListPetOwners',
+        parameters: [
+          { name: 'page-size', in: 'query', schema: { type: 'integer' } },
+          { name: 'X-Request-Id', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/pet_owner' } } },
+          },
+        },
+      },
+    },
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      pet_owner: {
+        type: 'object',
+        properties: {
+          firstName: { type: 'string' },
+          last_name: { type: 'string' },
+          address: { type: 'object', properties: { ZipCode: { type: 'string' } } },
+        },
+      },
+    },
+  },
+};
+
+// The naming rules are opt-in
+const allOn: RuleSettings = Object.fromEntries(namingRules.map(rule => [rule.id, 'warn']));
+
+function run(settings: RuleSettings = allOn) {
+  const registry = new RuleRegistry(namingRules);
+  // Rule findings are reported against the dereferenced document
+  const api = JSON.parse(JSON.stringify(spec));
+  api.paths['/petOwners/{owner_id}/'].get.responses['200'].content['application/json'].schema =
+    api.components.schemas.pet_owner;
+  return registry.run(api as OpenAPI.Document, settings).warnings;
+}
+
+describe('naming rules', () => {
+  it('should report every naming violation with its location', () => {
+    const warnings = run();
+
+    expect(warnings.map(w => [w.rule, w.message, w.pointer])).toEqual([
+      [
+        'path-segment-casing',
+        'Path segment "petOwners" in /petOwners/{owner_id}/ is not kebab-case',
+        '/paths/~1petOwners~1{owner_id}~1',
+      ],
+      [
+        'path-no-trailing-slash',
+        'Path /petOwners/{owner_id}/ has a trailing slash',
+        '/paths/~1petOwners~1{owner_id}~1',
+      ],
+      [
+        'operation-id-casing',
+        'operationId "ListPetOwners" is not camelCase',
+        '/paths/~1petOwners~1{owner_id}~1/get/operationId',
+      ],
+      [
+        'parameter-casing',
+        'path parameter "owner_id" is not camelCase',
+        '/paths/~1petOwners~1{owner_id}~1/parameters/0/name',
+      ],
+      [
+        'parameter-casing',
+        'query parameter "page-size" is not camelCase',
+        '/paths/~1petOwners~1{owner_id}~1/get/parameters/0/name',
+      ],
+      [
+        'property-casing',
+        'Property "last_name" is not camelCase',
+        '/components/schemas/pet_owner/properties/last_name',
+      ],
+      [
+        'property-casing',
+        'Property "ZipCode" is not camelCase',
+        '/components/schemas/pet_owner/properties/address/properties/ZipCode',
+      ],
+      [
+        'schema-name-casing',
+        'Schema name "pet_owner" is not PascalCase',
+        '/components/schemas/pet_owner',
+      ],
+    ]);
+  });
+
+  it('should be off unless enabled', () => {
+    expect(run({})).toEqual([]);
+  });
+
+  it('should accept other built-in styles and custom patterns', () => {
+    const warnings = run({
+      'path-segment-casing': ['warn', { pattern: '^[a-zA-Z]+$' }],
+      'path-no-trailing-slash': 'off',
+      'operation-id-casing': ['warn', { style: 'PascalCase' }],
+      'parameter-casing': ['warn', { style: 'snake_case', in: ['path'] }],
+      'property-casing': ['warn', { style: 'snake_case' }],
+      'schema-name-casing': ['warn', { style: 'snake_case' }],
+    });
+
+    expect(warnings.map(w => w.message)).toEqual([
+      'operationId "listPets" is not PascalCase',
+      'Property "firstName" is not snake_case',
+      'Property "ZipCode" is not snake_case',
+    ]);
+  });
+
+  it('should reject unknown casing styles and invalid patterns', () => {
+    expect(() => run({ 'operation-id-casing': ['warn', { style: 'Title Case' }] })).toThrow(
+      'Unknown casing style "Title Case" for rule operation-id-casing'
+    );
+    expect(() => run({ 'property-casing': ['warn', { pattern: '(' }] })).toThrow(
+      'Invalid pattern for rule property-casing'
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import type { OpenAPI } from 'openapi-types';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+import { loadSpec } from '../src/utils/loader.js';
+import { formatSpecReport } from '../src/reporters/index.js';
+import { RuleRegistry } from '../src/rules/registry.js';
+import { pathRules } from '../src/rules/paths.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-paths');
+
+const spec = `openapi: '3.0.3'
+info:
+  title: Users
+  description: Users API
+  version: '1.0.0'
+paths:
+  /users/{id}:
+    get:
+      operationId: getUser
+      summary: Get a user
+      parameters:
+        - name: id
+          in: path
+          required: true
+          schema:
+            type: string
+      responses:
+        '200':
+          description: OK
+  /users/{name}:
+    get:
+      operationId: getUser
+      summary: Get a user by name
+      parameters:
+        - name: name
+          in: path
+          required: true
+          schema:
+            type: string
+      responses:
+        '200':
+          description: OK
+  /users/me:
+    get:
+      operationId: getCurrentUser
+      summary: Get the current user
+      responses:
+        '200':
+          description: OK
+`;
+
+describe('operation and path conflicts', () => {
+  const specPath = join(TEST_DIR, 'openapi.yaml');
+
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(specPath, spec);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should report duplicate operationIds with both locations', async () => {
+    const result = await new SpecValidator().validate(await loadSpec(specPath), specPath);
+    const duplicate = result.errors?.find(e => e.rule === 'operation-id-unique');
+
+    expect(result.valid).toBe(false);
+    expect(duplicate).toMatchObject({
+      message:
+        'Duplicate operationId "getUser" for GET /users/{name} - already used by GET /users/{id}',
+      location: { file: specPath, line: 22, column: 7 },
+      related: [
+        {
+          pointer: '/paths/~1users~1{id}/get/operationId',
+          location: { file: specPath, line: 9, column: 7 },
+        },
+      ],
+    });
+  });
+
+  it('should report templates that differ only in parameter names', async () => {
+    const result = await new SpecValidator().validate(await loadSpec(specPath), specPath);
+    const conflict = result.errors?.find(e => e.rule === 'path-template-conflict');
+
+    expect(conflict?.message).toBe(
+      'Path /users/{name} conflicts with /users/{id} - they differ only in parameter names'
+    );
+    expect(conflict?.location?.line).toBe(20);
+    expect(conflict?.related?.[0].location?.line).toBe(7);
+  });
+
+  it('should warn about static paths overlapping templates', async () => {
+    const result = await new SpecValidator().validate(await loadSpec(specPath), specPath);
+    const ambiguous = result.warnings?.filter(w => w.rule === 'path-template-ambiguous');
+
+    expect(ambiguous?.map(w => w.message)).toEqual([
+      'Path /users/me is ambiguous with /users/{id} - a request can match both',
+      'Path /users/me is ambiguous with /users/{name} - a request can match both',
+    ]);
+  });
+
+  it('should list the other location as a SARIF related location', async () => {
+    const result = await new SpecValidator().validate(await loadSpec(specPath), specPath);
+    const sarif = JSON.parse(formatSpecReport(result, 'sarif', specPath));
+    const duplicate = sarif.runs[0].results.find(
+      (r: { ruleId: string }) => r.ruleId === 'operation-id-unique'
+    );
+
+    expect(duplicate.relatedLocations).toEqual([
+      {
+        id: 1,
+        physicalLocation: {
+          artifactLocation: { uri: 'test-fixtures-paths/openapi.yaml' },
+          region: { startLine: 9, startColumn: 7 },
+        },
+      },
+    ]);
+  });
+});
+
+describe('path parameter consistency', () => {
+  const api = {
+    openapi: '3.0.3',
+    info: { title: 'Orders', version: '1.0.0' },
+    paths: {
+      '/orders/{orderId}/items/{itemId}': {
+        parameters: [{ name: 'orderId', in: 'path', required: true, schema: { type: 'string' } }],
+        get: {
+          parameters: [{ name: 'itemId', in: 'path', schema: { type: 'string' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+        delete: {
+          parameters: [
+            { name: 'orderId', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'itemId', in: 'path', required: true, schema: { type: 'string' } },
+          ],
+          responses: { '204': { description: 'Deleted' } },
+        },
+        put: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+  } as unknown as OpenAPI.Document;
+
+  it('should report undeclared, unused, optional and conflicting path parameters', () => {
+    const { errors, warnings } = new RuleRegistry(pathRules).run(api);
+
+    expect(errors.map(e => [e.rule, e.message, e.pointer])).toEqual([
+      [
+        'path-params-declared',
+        'Path variable {itemId} of PUT /orders/{orderId}/items/{itemId} has no matching path parameter',
+        '/paths/~1orders~1{orderId}~1items~1{itemId}/put',
+      ],
+      [
+        'path-params-used',
+        'Path parameter "id" does not appear in /orders/{orderId}/items/{itemId}',
+        '/paths/~1orders~1{orderId}~1items~1{itemId}/put/parameters/0/name',
+      ],
+      [
+        'path-params-required',
+        'Path parameter "itemId" of /orders/{orderId}/items/{itemId} must be required: true',
+        '/paths/~1orders~1{orderId}~1items~1{itemId}/get/parameters/0',
+      ],
+    ]);
+    expect(warnings).toMatchObject([
+      {
+        rule: 'path-params-override',
+        message:
+          'DELETE /orders/{orderId}/items/{itemId} redefines path parameter "orderId" as integer, but the path declares it as string',
+        pointer: '/paths/~1orders~1{orderId}~1items~1{itemId}/delete/parameters/0',
+        related: [{ pointer: '/paths/~1orders~1{orderId}~1items~1{itemId}/parameters/0' }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import {
+  formatSpecReport,
+  formatSpecReports,
+  formatApiReport,
+  isReportFormat,
+} from '../src/reporters/index.js';
+import { builtinRules } from '../src/rules/builtin.js';
+import type { ApiValidationResult, ValidationResult } from '../src/utils/types.js';
+
+const specPath = join(process.cwd(), 'api', 'openapi.yaml');
+
+const specResult: ValidationResult = {
+  valid: false,
+  errors: [
+    {
+      type: 'rule-violation',
+      message: 'Missing operationId for GET /users',
+      path: 'paths./users.get',
+      rule: 'operation-operationId',
+      location: { file: specPath, line: 7, column: 5 },
+    },
+    {
+      type: 'missing-field',
+      message: 'Missing required field: info.title <here>',
+    },
+  ],
+  warnings: [
+    {
+      message: 'Missing API description',
+      rule: 'info-description',
+      location: { file: specPath, line: 2, column: 1 },
+    },
+  ],
+};
+
+const apiResults: ApiValidationResult[] = [
+  { path: '/users', method: 'get', valid: true, statusCode: 200, responseTime: 120 },
+  {
+    path: '/users',
+    method: 'post',
+    valid: false,
+    statusCode: 201,
+    responseTime: 80,
+    error: 'Response validation failed',
+    details: ['Body /id: must be integer'],
+  },
+  {
+    path: '/users/{id}',
+    method: 'get',
+    valid: true,
+    statusCode: 0,
+    responseTime: 0,
+    error: 'Skipped - No example value for path parameter: id',
+  },
+  {
+    path: '/users/{id}',
+    method: 'put',
+    valid: false,
+    responseTime: 0,
+    error: 'Test setup error - the generated request does not match the spec',
+    details: ["Request body: must have required property 'name'"],
+  },
+];
+
+describe('Reporters', () => {
+  it('should recognize supported formats', () => {
+    expect(isReportFormat('sarif')).toBe(true);
+    expect(isReportFormat('xml')).toBe(false);
+  });
+
+  describe('json', () => {
+    it('should serialize spec results', () => {
+      const report = JSON.parse(formatSpecReport(specResult, 'json', specPath));
+
+      expect(report.specPath).toBe(specPath);
+      expect(report.errors).toHaveLength(2);
+    });
+
+    it('should include an API summary', () => {
+      const report = JSON.parse(
+        formatApiReport(apiResults, 'json', specPath, 'http://localhost:3000')
+      );
+
+      expect(report.summary).toEqual({ passed: 1, failed: 1, skipped: 1, setupErrors: 1 });
+      expect(report.results).toHaveLength(4);
+    });
+  });
+
+  describe('junit', () => {
+    it('should report spec errors as escaped failures', () => {
+      const report = formatSpecReport(specResult, 'junit', specPath);
+
+      expect(report).toContain('failures="2"');
+      expect(report).toContain('info.title &lt;here&gt;');
+      expect(report).toContain('<system-out>warning: Missing API description (info-description)');
+    });
+
+    it('should report API results as test cases', () => {
+      const report = formatApiReport(apiResults, 'junit', specPath, 'http://localhost:3000');
+
+      expect(report).toContain('name="GET /users" time="0.12"/>');
+      expect(report).toContain('<failure message="Response validation failed">');
+      expect(report).toContain('<skipped message="Skipped - No example value');
+      expect(report).toContain('skipped="1"');
+      expect(report).toContain('<error message="Test setup error - the generated request');
+      expect(report).toContain('failures="1" errors="1"');
+    });
+  });
+
+  describe('sarif', () => {
+    it('should carry rule ids and source locations', () => {
+      const report = JSON.parse(formatSpecReport(specResult, 'sarif', specPath, builtinRules));
+      const run = report.runs[0];
+
+      expect(report.version).toBe('2.1.0');
+      expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toContain(
+        'operation-operationId'
+      );
+      expect(run.results[0]).toMatchObject({
+        ruleId: 'operation-operationId',
+        level: 'error',
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'api/openapi.yaml' },
+              region: { startLine: 7, startColumn: 5 },
+            },
+          },
+        ],
+      });
+      expect(run.results[1].ruleId).toBe('spec/missing-field');
+      expect(run.results[2]).toMatchObject({ ruleId: 'info-description', level: 'warning' });
+    });
+
+    it('should point API failures at their operation', () => {
+      const report = JSON.parse(
+        formatApiReport(apiResults, 'sarif', specPath, 'http://localhost:3000', pointer =>
+          pointer === '/paths/~1users/post' ? { file: specPath, line: 20, column: 5 } : undefined
+        )
+      );
+      const results = report.runs[0].results;
+
+      expect(results).toHaveLength(3);
+      expect(results[0]).toMatchObject({ ruleId: 'api/contract', level: 'error' });
+      expect(results[0].locations[0].physicalLocation.region.startLine).toBe(20);
+      expect(results[1]).toMatchObject({ ruleId: 'api/skipped', level: 'note' });
+      expect(results[2]).toMatchObject({ ruleId: 'api/setup', level: 'warning' });
+    });
+  });
+
+  describe('multiple specs', () => {
+    const otherPath = join(process.cwd(), 'api', 'orders.yaml');
+    const files = [
+      { specPath, result: specResult },
+      { specPath: otherPath, result: { valid: true } },
+      { specPath: 'package.json', result: { valid: true }, skipped: 'Not an OpenAPI document' },
+    ];
+
+    it('should summarize every file in json', () => {
+      const report = JSON.parse(formatSpecReports(files, 'json'));
+
+      expect(report.summary).toEqual({ valid: 1, invalid: 1, skipped: 1, errors: 2, warnings: 1 });
+      expect(report.results.map((r: { specPath: string }) => r.specPath)).toEqual([
+        specPath,
+        otherPath,
+        'package.json',
+      ]);
+      expect(report.results[2]).toEqual({
+        specPath: 'package.json',
+        skipped: 'Not an OpenAPI document',
+      });
+    });
+
+    it('should write one JUnit test suite per file', () => {
+      const report = formatSpecReports(files, 'junit');
+
+      expect(report).toContain('<testsuites name="openapi-auto-validator" tests="4" failures="2">');
+      expect(report.match(/<testsuite /g)).toHaveLength(3);
+      expect(report).toContain('<skipped message="Not an OpenAPI document"/>');
+    });
+
+    it('should combine SARIF results into one run', () => {
+      const report = JSON.parse(formatSpecReports(files, 'sarif'));
+
+      expect(report.runs).toHaveLength(1);
+      expect(report.runs[0].results).toHaveLength(3);
+    });
+  });
+});
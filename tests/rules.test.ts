@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import type { OpenAPI } from 'openapi-types';
+import { RuleRegistry } from '../src/rules/registry.js';
+import { loadCustomRules } from '../src/rules/custom.js';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+import type { LintRule } from '../src/utils/types.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-rules');
+
+const specWithWarnings = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Test API',
+    version: '1.0.0',
+  },
+  paths: {
+    '/users': {
+      get: {
+        responses: {
+          '200': {
+            description: 'Success',
+          },
+        },
+      },
+    },
+  },
+};
+
+const customRuleSource = `
+export default {
+  id: 'info-contact',
+  description: 'The info object should have contact details',
+  defaultSeverity: 'error',
+  check({ api }) {
+    return api.info.contact ? [] : [{ message: 'Missing contact', path: ['info'] }];
+  },
+};
+`;
+
+const api = specWithWarnings as unknown as OpenAPI.Document;
+
+describe('RuleRegistry', () => {
+  it('should report built-in rules with their ids at default severity', () => {
+    const registry = new RuleRegistry();
+    const { errors, warnings } = registry.run(api);
+
+    expect(errors).toHaveLength(0);
+    expect(warnings.map(w => w.rule)).toEqual([
+      'info-description',
+      'operation-operationId',
+      'operation-summary',
+    ]);
+    expect(warnings[1].path).toBe('paths./users.get');
+  });
+
+  it('should respect per-rule severities', () => {
+    const registry = new RuleRegistry();
+    const { errors, warnings } = registry.run(api, {
+      'info-description': 'off',
+      'operation-operationId': 'error',
+    });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ type: 'rule-violation', rule: 'operation-operationId' });
+    expect(warnings.map(w => w.rule)).toEqual(['operation-summary']);
+  });
+
+  it('should escalate warnings to errors in strict mode', () => {
+    const registry = new RuleRegistry();
+    const { errors, warnings } = registry.run(api, { 'info-description': 'off' }, true);
+
+    expect(warnings).toHaveLength(0);
+    expect(errors.every(e => e.type === 'warning-as-error')).toBe(true);
+  });
+
+  it('should pass rule options from tuple settings', () => {
+    const rule: LintRule = {
+      id: 'echo-options',
+      description: 'Echo options',
+      defaultSeverity: 'warn',
+      check: ({ options }) => [{ message: String(options.text) }],
+    };
+    const registry = new RuleRegistry([rule]);
+    const { warnings } = registry.run(api, { 'echo-options': ['warn', { text: 'hello' }] });
+
+    expect(warnings[0].message).toBe('hello');
+  });
+
+  it('should reject unknown rules and invalid severities', () => {
+    const registry = new RuleRegistry();
+
+    expect(() => registry.run(api, { 'no-such-rule': 'warn' })).toThrow('Unknown rule');
+    expect(() =>
+      registry.run(api, { 'info-description': 'loud' as never })
+    ).toThrow('Invalid severity');
+  });
+
+  it('should reject duplicate rule ids', () => {
+    const registry = new RuleRegistry();
+    expect(() => registry.register(registry.list()[0])).toThrow('Duplicate rule id');
+  });
+});
+
+describe('loadCustomRules', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, 'custom-rule.mjs'), customRuleSource);
+    await writeFile(join(TEST_DIR, 'spec.json'), JSON.stringify(specWithWarnings, null, 2));
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should load rules from a local module', async () => {
+    const rules = await loadCustomRules(['custom-rule.mjs'], TEST_DIR);
+
+    expect(rules).toHaveLength(1);
+    expect(rules[0].id).toBe('info-contact');
+  });
+
+  it('should run custom rules through SpecValidator', async () => {
+    const customRules = await loadCustomRules(['custom-rule.mjs'], TEST_DIR);
+    const validator = new SpecValidator({ customRules });
+
+    const result = await validator.validate(specWithWarnings, join(TEST_DIR, 'spec.json'));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors?.some(e => e.rule === 'info-contact')).toBe(true);
+  });
+
+  it('should fail clearly when a module cannot be loaded', async () => {
+    await expect(loadCustomRules(['missing.mjs'], TEST_DIR)).rejects.toThrow(
+      'Failed to load custom rules'
+    );
+  });
+
+  it('should reject TypeScript modules', async () => {
+    await expect(loadCustomRules(['custom-rule.ts'], TEST_DIR)).rejects.toThrow(
+      'TypeScript modules are not supported'
+    );
+  });
+});
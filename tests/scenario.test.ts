@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { interpolate, loadScenario, parseJsonPath, queryJsonPath } from '../src/utils/scenario.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-scenario');
+
+describe('scenario', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(
+      join(TEST_DIR, 'lifecycle.yaml'),
+      [
+        'name: Pet lifecycle',
+        'steps:',
+        '  - operationId: createPet',
+        '    body: { name: Rex }',
+        '    capture:',
+        '      petId: $.body.id',
+        '  - operationId: getPet',
+        '    params: { petId: "${petId}" }',
+      ].join('\n')
+    );
+    await writeFile(
+      join(TEST_DIR, 'broken.yaml'),
+      ['steps:', '  - operationId: getPet', '    capture:', '      id: body.id'].join('\n')
+    );
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should read JSONPath members, indices and quoted names', () => {
+    expect(parseJsonPath("$.body.items[0]['pet-id']")).toEqual(['body', 'items', 0, 'pet-id']);
+
+    const response = {
+      status: 201,
+      headers: { location: '/pets/7' },
+      body: { items: [{ id: 7 }] },
+    };
+    expect(queryJsonPath(response, '$.body.items[0].id')).toBe(7);
+    expect(queryJsonPath(response, '$.headers.location')).toBe('/pets/7');
+    expect(queryJsonPath(response, '$.body.missing')).toBeUndefined();
+    expect(() => parseJsonPath('$..id')).toThrow('Unsupported JSONPath "$..id" at position 1');
+  });
+
+  it('should inject variables, keeping the type of whole-value references', () => {
+    const variables = { petId: 42, tag: 'dog' };
+
+    expect(
+      interpolate(
+        { params: { petId: '${petId}' }, body: { path: '/pets/${petId}', tags: ['${tag}'] } },
+        variables
+      )
+    ).toEqual({ params: { petId: 42 }, body: { path: '/pets/42', tags: ['dog'] } });
+    expect(() => interpolate('${ownerId}', variables)).toThrow(
+      'Variable "ownerId" has not been captured by an earlier step'
+    );
+  });
+
+  it('should load scenario files', async () => {
+    const scenario = await loadScenario(join(TEST_DIR, 'lifecycle.yaml'));
+
+    expect(scenario.name).toBe('Pet lifecycle');
+    expect(scenario.steps).toEqual([
+      { operationId: 'createPet', body: { name: 'Rex' }, capture: { petId: '$.body.id' } },
+      { operationId: 'getPet', params: { petId: '${petId}' } },
+    ]);
+  });
+
+  it('should reject invalid scenario files', async () => {
+    await expect(loadScenario(join(TEST_DIR, 'broken.yaml'))).rejects.toThrow(
+      'step 1: JSONPath "body.id" must start with $'
+    );
+    await expect(loadScenario(join(TEST_DIR, 'missing.yaml'))).rejects.toThrow(
+      'Scenario file not found'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import type { OpenAPI } from 'openapi-types';
+import { RuleRegistry } from '../src/rules/registry.js';
+import { securityRules } from '../src/rules/security.js';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  security: [{ oauth: ['pets:read'] }],
+  paths: {
+    '/pets': {
+      get: {
+        responses: { '200': { description: 'OK' } },
+      },
+      post: {
+        security: [{ oauth: ['pets:write', 'pets:admin'] }, { session: [] }],
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/health': {
+      get: {
+        security: [],
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+    '/pets/search': {
+      get: {
+        security: [{}, { apiKey: [] }],
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      oauth: {
+        type: 'oauth2',
+        flows: {
+          clientCredentials: {
+            tokenUrl: 'https://auth.example.com/token',
+            scopes: { 'pets:read': 'Read pets', 'pets:write': 'Write pets' },
+          },
+        },
+      },
+      apiKey: { type: 'apiKey', in: 'body', name: '' },
+      basic: { type: 'http', scheme: 'Basic' },
+      token: { type: 'http', scheme: 'jwt' },
+    },
+  },
+};
+
+const api = spec as unknown as OpenAPI.Document;
+
+describe('security rules', () => {
+  it('should report unknown schemes, undeclared scopes and invalid schemes', () => {
+    const { errors } = new RuleRegistry(securityRules).run(api);
+
+    expect(errors.map(e => [e.rule, e.message, e.pointer])).toEqual([
+      [
+        'security-scheme-exists',
+        'POST /pets requires security scheme "session", which is not declared',
+        '/paths/~1pets/post/security/1/session',
+      ],
+      [
+        'security-scopes-defined',
+        'POST /pets requires scope "pets:admin", which security scheme "oauth" does not declare',
+        '/paths/~1pets/post/security/0/oauth/1',
+      ],
+      [
+        'security-scheme-valid',
+        'apiKey security scheme "apiKey" must set in to one of query, header, cookie',
+        '/components/securitySchemes/apiKey/in',
+      ],
+      [
+        'security-scheme-valid',
+        'apiKey security scheme "apiKey" must set the name of its body',
+        '/components/securitySchemes/apiKey/name',
+      ],
+      [
+        'security-scheme-valid',
+        'http security scheme "token" uses unknown scheme "jwt"',
+        '/components/securitySchemes/token/scheme',
+      ],
+    ]);
+    expect(errors[1].related?.[0].pointer).toBe('/components/securitySchemes/oauth');
+  });
+
+  it('should flag unsecured operations only when enabled', () => {
+    const registry = new RuleRegistry(securityRules);
+    expect(registry.run(api).warnings).toHaveLength(0);
+
+    const { warnings } = registry.run(api, {
+      'security-scheme-exists': 'off',
+      'security-scopes-defined': 'off',
+      'security-scheme-valid': 'off',
+      'operation-security-defined': 'warn',
+    });
+
+    expect(warnings.map(w => w.message)).toEqual([
+      'GET /health has no security requirements',
+      'GET /pets/search allows unauthenticated access',
+    ]);
+  });
+
+  it('should read Swagger 2.0 security definitions', () => {
+    const swagger = {
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      securityDefinitions: {
+        oauth: { type: 'oauth2', flow: 'application', tokenUrl: 'https://a', scopes: { read: '' } },
+        key: { type: 'apiKey', in: 'cookie', name: 'session' },
+      },
+      paths: {
+        '/pets': {
+          get: {
+            security: [{ oauth: ['read', 'write'] }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    } as unknown as OpenAPI.Document;
+
+    const { errors } = new RuleRegistry(securityRules).run(swagger);
+
+    expect(errors.map(e => e.message)).toEqual([
+      'GET /pets requires scope "write", which security scheme "oauth" does not declare',
+      'apiKey security scheme "key" must set in to one of query, header',
+    ]);
+  });
+
+  it('should report Swagger 2.0 document security without securityDefinitions', () => {
+    const swagger = {
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      security: [{ apiKey: [] }],
+      paths: {},
+    } as unknown as OpenAPI.Document;
+
+    const { errors, warnings } = new RuleRegistry().run(swagger);
+    const findings = [...errors, ...warnings].filter(f => f.rule?.startsWith('security'));
+
+    expect(findings.map(f => [f.rule, f.message, f.pointer])).toEqual([
+      [
+        'security-schemes-defined',
+        'Security requirements defined but no security schemes found',
+        '/security',
+      ],
+    ]);
+  });
+});
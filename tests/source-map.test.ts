@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { SpecSourceMap, formatLocation } from '../src/utils/source-map.js';
+import { SpecValidator } from '../src/validators/spec-validator.js';
+import { loadSpec } from '../src/utils/loader.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-source-map');
+
+const rootSpec = `openapi: '3.0.3'
+info:
+  title: Test API
+  version: '1.0.0'
+paths:
+  /users:
+    get:
+      responses:
+        '200':
+          description: Success
+          content:
+            application/json:
+              schema:
+                $ref: './schemas.yaml#/User'
+  /broken:
+    get:
+      operationId: broken
+      summary: Broken
+      responses:
+        '200':
+          description: Success
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Missing'
+`;
+
+const schemasFile = `User:
+  type: object
+  properties:
+    id:
+      type: integer
+    name:
+      type: string
+`;
+
+describe('SpecSourceMap', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, 'openapi.yaml'), rootSpec);
+    await writeFile(join(TEST_DIR, 'schemas.yaml'), schemasFile);
+    await writeFile(
+      join(TEST_DIR, 'spec.json'),
+      JSON.stringify({ openapi: '3.0.3', info: { title: 'T', version: '1' }, paths: {} }, null, 2)
+    );
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should locate nodes in the entry file', async () => {
+    const sourceMap = await SpecSourceMap.load(join(TEST_DIR, 'openapi.yaml'));
+
+    expect(sourceMap.locate('/paths/~1users/get')).toEqual({
+      file: join(TEST_DIR, 'openapi.yaml'),
+      line: 7,
+      column: 5,
+    });
+  });
+
+  it('should follow $ref into external files', async () => {
+    const sourceMap = await SpecSourceMap.load(join(TEST_DIR, 'openapi.yaml'));
+    const pointer =
+      '/paths/~1users/get/responses/200/content/application~1json/schema/properties/name';
+
+    expect(sourceMap.locate(pointer)).toEqual({
+      file: join(TEST_DIR, 'schemas.yaml'),
+      line: 6,
+      column: 5,
+    });
+    expect(sourceMap.fileNames).toHaveLength(2);
+  });
+
+  it('should fall back to the closest existing ancestor', async () => {
+    const sourceMap = await SpecSourceMap.load(join(TEST_DIR, 'openapi.yaml'));
+
+    expect(sourceMap.locate('/paths/~1users/get/operationId')?.line).toBe(7);
+  });
+
+  it('should locate nodes in JSON files', async () => {
+    const sourceMap = await SpecSourceMap.load(join(TEST_DIR, 'spec.json'));
+
+    expect(sourceMap.locate('/info/title')).toMatchObject({ line: 4, column: 5 });
+  });
+
+  it('should report broken local refs with their location', async () => {
+    const sourceMap = await SpecSourceMap.load(join(TEST_DIR, 'openapi.yaml'));
+
+    expect(sourceMap.findBrokenRefs()).toEqual([
+      {
+        ref: '#/components/schemas/Missing',
+        location: { file: join(TEST_DIR, 'openapi.yaml'), line: 25, column: 17 },
+      },
+    ]);
+  });
+
+  it('should format locations relative to a base directory', () => {
+    const location = { file: join(TEST_DIR, 'openapi.yaml'), line: 3, column: 9 };
+
+    expect(formatLocation(location, TEST_DIR)).toBe('openapi.yaml:3:9');
+  });
+});
+
+describe('SpecValidator source locations', () => {
+  beforeAll(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+    await writeFile(join(TEST_DIR, 'openapi.yaml'), rootSpec.split('  /broken:')[0]);
+    await writeFile(join(TEST_DIR, 'schemas.yaml'), schemasFile);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should attach file:line:col to warnings', async () => {
+    const validator = new SpecValidator();
+    const result = await validator.validate(
+      await loadSpec(join(TEST_DIR, 'openapi.yaml')),
+      join(TEST_DIR, 'openapi.yaml')
+    );
+
+    const warning = result.warnings?.find(w => w.rule === 'operation-operationId');
+    expect(warning?.location).toEqual({
+      file: join(TEST_DIR, 'openapi.yaml'),
+      line: 7,
+      column: 5,
+    });
+  });
+});
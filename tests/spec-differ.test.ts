@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest';
+import type { OpenAPI } from 'openapi-types';
+import { SpecDiffer } from '../src/validators/spec-differ.js';
+
+const baseSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { name: 'limit', in: 'query', required: false, schema: { type: 'integer' } },
+          {
+            name: 'status',
+            in: 'query',
+            schema: { type: 'string', enum: ['available', 'pending', 'sold'] },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['id', 'name'],
+                    properties: {
+                      id: { type: 'integer' },
+                      name: { type: 'string' },
+                      tag: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '404': { description: 'Not found' },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  name: { type: 'string' },
+                  tag: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/stores': {
+      get: { responses: { '200': { description: 'OK' } } },
+    },
+  },
+};
+
+function clone(): typeof baseSpec {
+  return JSON.parse(JSON.stringify(baseSpec));
+}
+
+function diff(oldSpec: unknown, newSpec: unknown) {
+  return new SpecDiffer().diff(oldSpec as OpenAPI.Document, newSpec as OpenAPI.Document);
+}
+
+function typesOf(oldSpec: unknown, newSpec: unknown, severity: string): string[] {
+  return diff(oldSpec, newSpec)
+    .changes.filter(c => c.severity === severity)
+    .map(c => c.type);
+}
+
+describe('SpecDiffer', () => {
+  it('should report no changes for identical specs', () => {
+    const result = diff(baseSpec, clone());
+
+    expect(result.changes).toEqual([]);
+    expect(result.breaking).toBe(0);
+  });
+
+  it('should flag removed paths and operations as breaking', () => {
+    const next = clone();
+    delete (next.paths as Record<string, unknown>)['/stores'];
+    delete (next.paths['/pets'] as Record<string, unknown>).post;
+
+    const result = diff(baseSpec, next);
+
+    expect(result.breaking).toBe(2);
+    expect(result.changes.map(c => c.type)).toEqual(['operation-removed', 'path-removed']);
+    expect(result.changes[0].path).toBe('paths./pets.post');
+  });
+
+  it('should treat added paths as non-breaking', () => {
+    const next = clone();
+    (next.paths as Record<string, unknown>)['/owners'] = {
+      get: { responses: { '200': { description: 'OK' } } },
+    };
+
+    expect(typesOf(baseSpec, next, 'non-breaking')).toEqual(['path-added']);
+  });
+
+  it('should flag newly required request fields and params', () => {
+    const next = clone();
+    next.paths['/pets'].get.parameters[0].required = true;
+    next.paths['/pets'].post.requestBody.content['application/json'].schema.required.push('tag');
+    (next.paths['/pets'].get.parameters as unknown[]).push({
+      name: 'owner',
+      in: 'query',
+      required: true,
+      schema: { type: 'string' },
+    });
+
+    expect(typesOf(baseSpec, next, 'breaking')).toEqual([
+      'parameter-became-required',
+      'required-parameter-added',
+      'request-property-became-required',
+    ]);
+  });
+
+  it('should flag narrowed request enums as breaking', () => {
+    const next = clone();
+    next.paths['/pets'].get.parameters[1].schema.enum = ['available', 'pending'];
+
+    const result = diff(baseSpec, next);
+
+    expect(result.changes).toEqual([
+      expect.objectContaining({
+        severity: 'breaking',
+        type: 'enum-narrowed',
+        path: 'paths./pets.get.parameters.query:status.schema.enum',
+      }),
+    ]);
+  });
+
+  it('should flag removed response fields and changed types', () => {
+    const next = clone();
+    const item = next.paths['/pets'].get.responses['200'].content['application/json'].schema.items;
+    delete (item.properties as Record<string, unknown>).tag;
+    item.properties.id = { type: 'string' };
+
+    expect(typesOf(baseSpec, next, 'breaking')).toEqual([
+      'type-changed',
+      'response-property-removed',
+    ]);
+  });
+
+  it('should flag removed status codes as breaking', () => {
+    const next = clone();
+    delete (next.paths['/pets'].get.responses as Record<string, unknown>)['404'];
+
+    expect(typesOf(baseSpec, next, 'breaking')).toEqual(['response-status-removed']);
+  });
+
+  it('should allow requests to widen types and responses to narrow them', () => {
+    const next = clone();
+    next.paths['/pets'].post.requestBody.content['application/json'].schema.properties.tag = {
+      type: 'string',
+      nullable: true,
+    } as never;
+
+    expect(typesOf(baseSpec, next, 'non-breaking')).toEqual(['type-changed']);
+    expect(diff(baseSpec, next).breaking).toBe(0);
+  });
+
+  it('should report informational changes', () => {
+    const next = clone();
+    next.info.version = '1.1.0';
+    (next.paths['/pets'].get as Record<string, unknown>).deprecated = true;
+
+    const result = diff(baseSpec, next);
+
+    expect(result.info).toBe(2);
+    expect(result.changes.map(c => c.type)).toEqual(['version-changed', 'operation-deprecated']);
+  });
+
+  it('should compare a shared schema at every use', () => {
+    const oldPet = { type: 'object', properties: { name: { type: 'string' } } };
+    const newPet = {
+      type: 'object',
+      required: ['tag'],
+      properties: { name: { type: 'string' }, tag: { type: 'string' } },
+    };
+    const specWith = (schema: object) => ({
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema } } },
+            },
+          },
+          post: {
+            requestBody: { content: { 'application/json': { schema } } },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+    });
+
+    // The same object in both places, as after dereferencing a $ref
+    const result = diff(specWith(oldPet), specWith(newPet));
+
+    expect(result.changes.map(c => [c.severity, c.type, c.path])).toEqual([
+      ['non-breaking', 'response-property-added', expect.stringContaining('responses')],
+      ['breaking', 'required-request-property-added', expect.stringContaining('requestBody')],
+    ]);
+  });
+
+  it('should look inside allOf branches and additionalProperties', () => {
+    const specWith = (schema: object) => ({
+      openapi: '3.0.3',
+      info: { title: 'Pets', version: '1' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema } } },
+            },
+          },
+        },
+      },
+    });
+    const oldPet = {
+      allOf: [
+        { type: 'object', properties: { kind: { type: 'string' } } },
+        {
+          type: 'object',
+          required: ['id', 'name'],
+          properties: { id: { type: 'integer' }, name: { type: 'string' } },
+          additionalProperties: false,
+        },
+      ],
+    };
+    const newPet = {
+      allOf: [
+        { type: 'object', properties: { kind: { type: 'string' } } },
+        { type: 'object', properties: {} },
+      ],
+    };
+
+    const result = diff(specWith(oldPet), specWith(newPet));
+
+    expect(result.breaking).toBe(3);
+    expect(result.changes.map(c => [c.severity, c.type, c.path])).toEqual([
+      [
+        'breaking',
+        'response-property-removed',
+        expect.stringMatching(/schema\.allOf\[1\]\.properties\.id$/),
+      ],
+      [
+        'breaking',
+        'response-property-removed',
+        expect.stringMatching(/schema\.allOf\[1\]\.properties\.name$/),
+      ],
+      [
+        'breaking',
+        'additional-properties-allowed',
+        expect.stringMatching(/schema\.allOf\[1\]\.additionalProperties$/),
+      ],
+    ]);
+    expect(typesOf(specWith(oldPet), specWith({ allOf: [oldPet.allOf[0]] }), 'breaking')).toEqual([
+      'composition-branch-removed',
+    ]);
+  });
+
+  it('should handle circular schemas', () => {
+    const node: Record<string, unknown> = { type: 'object', properties: {} };
+    (node.properties as Record<string, unknown>).child = node;
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Tree', version: '1' },
+      paths: {
+        '/tree': {
+          get: {
+            responses: {
+              '200': { description: 'OK', content: { 'application/json': { schema: node } } },
+            },
+          },
+        },
+      },
+    };
+
+    expect(diff(spec, spec).changes).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { expandSpecPaths, globToRegExp, isOpenApiFile } from '../src/utils/spec-files.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-spec-files');
+
+const spec = "openapi: 3.0.3\ninfo:\n  title: Pets\n  version: '1'\npaths: {}\n";
+
+describe('spec file discovery', () => {
+  beforeAll(async () => {
+    await mkdir(join(TEST_DIR, 'users', 'v2'), { recursive: true });
+    await mkdir(join(TEST_DIR, 'orders'), { recursive: true });
+    await mkdir(join(TEST_DIR, 'node_modules', 'dep'), { recursive: true });
+    await writeFile(join(TEST_DIR, 'users', 'openapi.yaml'), spec);
+    await writeFile(join(TEST_DIR, 'users', 'v2', 'openapi.yml'), spec);
+    await writeFile(join(TEST_DIR, 'orders', 'swagger.json'), '{"swagger": "2.0"}');
+    await writeFile(join(TEST_DIR, 'orders', 'package.json'), '{"name": "orders"}');
+    await writeFile(join(TEST_DIR, 'orders', 'notes.md'), '# Orders');
+    await writeFile(join(TEST_DIR, 'orders', 'broken.yaml'), 'openapi: 3.0.3\ninfo: [\n');
+    await writeFile(join(TEST_DIR, 'node_modules', 'dep', 'openapi.yaml'), spec);
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should search directories recursively for YAML and JSON files', async () => {
+    expect(await expandSpecPaths([TEST_DIR])).toEqual([
+      join(TEST_DIR, 'orders', 'broken.yaml'),
+      join(TEST_DIR, 'orders', 'package.json'),
+      join(TEST_DIR, 'orders', 'swagger.json'),
+      join(TEST_DIR, 'users', 'openapi.yaml'),
+      join(TEST_DIR, 'users', 'v2', 'openapi.yml'),
+    ]);
+  });
+
+  it('should expand globs and drop duplicates', async () => {
+    const files = await expandSpecPaths([
+      `${TEST_DIR}/**/openapi.{yaml,yml}`,
+      `${TEST_DIR}/users/openapi.yaml`,
+      `${TEST_DIR}/*/swagger.json`,
+      'missing.yaml',
+    ]);
+
+    expect(files).toEqual([
+      join(TEST_DIR, 'users', 'openapi.yaml'),
+      join(TEST_DIR, 'users', 'v2', 'openapi.yml'),
+      join(TEST_DIR, 'orders', 'swagger.json'),
+      'missing.yaml',
+    ]);
+  });
+
+  it('should match glob syntax', () => {
+    expect(globToRegExp('**/*.yaml').test('a/b/c.yaml')).toBe(true);
+    expect(globToRegExp('**/*.yaml').test('c.yaml')).toBe(true);
+    expect(globToRegExp('*.yaml').test('a/c.yaml')).toBe(false);
+    expect(globToRegExp('v[12]/api?.json').test('v2/api1.json')).toBe(true);
+    expect(globToRegExp('v[!12]/api.json').test('v1/api.json')).toBe(false);
+  });
+
+  it('should recognize OpenAPI documents, including ones that fail to parse', async () => {
+    expect(await isOpenApiFile(join(TEST_DIR, 'users', 'openapi.yaml'))).toBe(true);
+    expect(await isOpenApiFile(join(TEST_DIR, 'orders', 'swagger.json'))).toBe(true);
+    expect(await isOpenApiFile(join(TEST_DIR, 'orders', 'broken.yaml'))).toBe(true);
+    expect(await isOpenApiFile(join(TEST_DIR, 'orders', 'package.json'))).toBe(false);
+  });
+});
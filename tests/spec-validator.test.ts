@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { writeFile, mkdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { SpecValidator } from '../src/validators/spec-validator.js';
+import { loadSpec } from '../src/utils/loader.js';
 
 const TEST_DIR = join(process.cwd(), 'test-fixtures-spec');
 
@@ -207,6 +208,105 @@ describe('SpecValidator', () => {
     });
   });
 
+  describe('in-memory documents', () => {
+    const inMemorySpec = {
+      openapi: '3.0.3',
+      info: { title: 'Generated API', version: '1.0.0', description: 'Never written to disk' },
+      paths: {
+        '/users': {
+          get: {
+            operationId: 'getUsers',
+            summary: 'Get all users',
+            responses: {
+              '200': {
+                description: 'Successful response',
+                content: {
+                  'application/json': { schema: { $ref: './schemas/user.json' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    beforeAll(async () => {
+      await mkdir(join(TEST_DIR, 'schemas'), { recursive: true });
+      await writeFile(join(TEST_DIR, 'schemas', 'user.json'), JSON.stringify({ type: 'object' }));
+    });
+
+    it('should validate a spec that only exists in memory', async () => {
+      const validator = new SpecValidator(false);
+      const specPath = join(TEST_DIR, 'stdin');
+
+      const result = await validator.validate(inMemorySpec, specPath);
+
+      expect(result.valid).toBe(true);
+      expect(result.info?.title).toBe('Generated API');
+      // The caller's document is not dereferenced in place
+      expect(inMemorySpec.paths['/users'].get.responses['200'].content).toEqual({
+        'application/json': { schema: { $ref: './schemas/user.json' } },
+      });
+    });
+
+    it('should resolve relative $refs from the directory of the given path', async () => {
+      const validator = new SpecValidator(false);
+      const result = await validator.validate(inMemorySpec, join(process.cwd(), 'stdin'));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0].type).toBe('ref-error');
+    });
+
+    it('should use the spec argument instead of re-reading the file', async () => {
+      const validator = new SpecValidator(false);
+      // The file on disk is missing info
+      const result = await validator.validate(
+        validOpenApiSpec,
+        join(TEST_DIR, 'invalid-spec.json')
+      );
+
+      expect(result.valid).toBe(true);
+      expect(result.info?.title).toBe('Test API');
+    });
+
+    it('should locate issues in the given content', async () => {
+      const validator = new SpecValidator(false);
+      const content = 'openapi: 3.0.3\ninfo:\n  title: Piped\n  version: 1.0.0\npaths: {}\n';
+
+      const result = await validator.validate(
+        { openapi: '3.0.3', info: { title: 'Piped', version: '1.0.0' }, paths: {} },
+        join(TEST_DIR, 'stdin'),
+        content
+      );
+
+      const warning = result.warnings?.find(w => w.rule === 'info-description');
+      expect(warning?.location).toEqual({ file: join(TEST_DIR, 'stdin'), line: 2, column: 1 });
+    });
+
+    it('should locate issues in YAML files that both parsers read alike', async () => {
+      const validator = new SpecValidator(false);
+      const specPath = join(TEST_DIR, 'dated.yaml');
+      await writeFile(
+        specPath,
+        [
+          'openapi: 3.0.3',
+          'info:',
+          '  title: Dated',
+          '  version: 1.0.0',
+          'paths: {}',
+          'components:',
+          '  schemas:',
+          '    Day: { type: string, format: date, example: 2024-01-01 }',
+        ].join('\n')
+      );
+
+      const result = await validator.validate(await loadSpec(specPath), specPath);
+
+      const warning = result.warnings?.find(w => w.rule === 'info-description');
+      expect(warning?.location).toEqual({ file: specPath, line: 2, column: 1 });
+    });
+  });
+
   describe('strict mode', () => {
     it('should convert warnings to errors in strict mode', async () => {
       const validator = new SpecValidator(true);
@@ -221,4 +321,47 @@ describe('SpecValidator', () => {
       }
     });
   });
+
+  describe('OpenAPI 3.1 schemas', () => {
+    const specWithDefs = (tag: Record<string, unknown>) => ({
+      openapi: '3.1.0',
+      info: { title: 'Tags', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Tag: { ...tag, allOf: [{ $ref: '#/$defs/Name' }], $defs: { Name: { type: 'string' } } },
+          Label: { $ref: '#/components/schemas/Tag' },
+        },
+      },
+    });
+
+    it('should resolve $defs refs against the $id of their schema', async () => {
+      const validator = new SpecValidator(false);
+      const spec = specWithDefs({ $id: 'https://example.com/schemas/tag' });
+
+      const result = await validator.validate(spec, join(TEST_DIR, 'spec-31.json'));
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should resolve $defs refs without an $id against the document root', async () => {
+      const validator = new SpecValidator(false);
+
+      const result = await validator.validate(specWithDefs({}), join(TEST_DIR, 'spec-31.json'));
+
+      expect(result.valid).toBe(false);
+      expect(result.errors?.[0].type).toBe('ref-error');
+    });
+  });
+
+  describe('rule settings', () => {
+    it('should reject unknown rules and severities when created', () => {
+      expect(() => new SpecValidator({ rules: { 'no-such-rule': 'warn' } })).toThrow(
+        'Unknown rule: no-such-rule'
+      );
+      expect(() => new SpecValidator({ rules: { 'info-description': 'loud' as never } })).toThrow(
+        'Invalid severity for rule info-description: loud'
+      );
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import SwaggerParser from '@apidevtools/swagger-parser';
+import type { OpenAPI } from 'openapi-types';
+import { SpecAnalyzer, UNTAGGED } from '../src/utils/stats.js';
+
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1.0.0' },
+  security: [{ apiKey: [] }],
+  paths: {
+    '/pets': {
+      get: {
+        tags: ['pets'],
+        summary: 'List pets',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' }, example: 10 }],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        tags: ['pets', 'admin'],
+        security: [{ apiKey: [] }, {}],
+        requestBody: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/health': {
+      get: {
+        deprecated: true,
+        description: 'Liveness probe',
+        security: [],
+        responses: { '200': { description: 'OK' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          owner: { $ref: '#/components/schemas/Owner' },
+        },
+      },
+      Owner: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          pets: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+        },
+      },
+      Unused: { type: 'string' },
+    },
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'X-Key' },
+    },
+  },
+};
+
+async function analyze(document: unknown, externalFiles?: string[]) {
+  const api = await SwaggerParser.dereference(structuredClone(document) as OpenAPI.Document);
+  return new SpecAnalyzer().analyze(api, externalFiles);
+}
+
+describe('SpecAnalyzer', () => {
+  it('should count operations by method and tag and list deprecated ones', async () => {
+    const { info, operations } = await analyze(spec);
+
+    expect(info).toMatchObject({ title: 'Pets', pathCount: 2, schemaCount: 3 });
+    expect(operations).toEqual({
+      total: 3,
+      byMethod: { GET: 2, POST: 1 },
+      byTag: { pets: 2, admin: 1, [UNTAGGED]: 1 },
+      deprecated: ['GET /health'],
+    });
+  });
+
+  it('should treat empty and optional requirements as unsecured', async () => {
+    const { security } = await analyze(spec);
+
+    expect(security).toEqual({
+      secured: 1,
+      unsecured: ['POST /pets', 'GET /health'],
+      coverage: 33.3,
+      schemes: { apiKey: 2 },
+    });
+  });
+
+  it('should measure recursive schemas and the schemas each operation uses', async () => {
+    const { schemas, schemaUsage } = await analyze(spec);
+
+    expect(schemas.metrics).toEqual([
+      { name: 'Owner', depth: 4, size: 4 },
+      { name: 'Pet', depth: 3, size: 4 },
+      { name: 'Unused', depth: 1, size: 0 },
+    ]);
+    expect(schemas.maxDepth).toBe(4);
+    expect(schemaUsage.operations).toEqual([
+      { operation: 'GET /pets', schemas: ['Owner', 'Pet'] },
+      { operation: 'POST /pets', schemas: ['Owner', 'Pet'] },
+      { operation: 'GET /health', schemas: [] },
+    ]);
+    expect(schemaUsage).toMatchObject({ average: 1.3, max: 2 });
+  });
+
+  it('should report description and example coverage', async () => {
+    const { documentation, externalFiles } = await analyze(spec, ['schemas/pet.yaml']);
+
+    expect(documentation).toEqual({
+      described: 2,
+      withExamples: 1,
+      descriptionCoverage: 66.7,
+      exampleCoverage: 33.3,
+    });
+    expect(externalFiles).toEqual(['schemas/pet.yaml']);
+  });
+
+  it('should read Swagger 2.0 definitions', async () => {
+    const { schemas, schemaUsage } = await analyze({
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            responses: { '200': { description: 'OK', schema: { $ref: '#/definitions/Pet' } } },
+          },
+        },
+      },
+      definitions: { Pet: { type: 'object', properties: { name: { type: 'string' } } } },
+    });
+
+    expect(schemas.metrics).toEqual([{ name: 'Pet', depth: 2, size: 1 }]);
+    expect(schemaUsage.operations[0].schemas).toEqual(['Pet']);
+  });
+});
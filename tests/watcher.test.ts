@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { writeFile, mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { diffResults, FileWatcher } from '../src/utils/watcher.js';
+import { logger } from '../src/utils/logger.js';
+import type { ValidationResult } from '../src/utils/types.js';
+
+const TEST_DIR = join(process.cwd(), 'test-fixtures-watcher');
+
+describe('diffResults', () => {
+  const previous: ValidationResult = {
+    valid: false,
+    errors: [{ type: 'ref-error', message: 'Failed to resolve $ref pointer: ./pet.yaml' }],
+    warnings: [
+      { message: 'Missing API description', rule: 'info-description', pointer: '/info' },
+      {
+        message: 'Missing operationId for GET /pets',
+        rule: 'operation-operationId',
+        pointer: '/paths/~1pets/get',
+        location: { file: 'api.yaml', line: 7, column: 5 },
+      },
+    ],
+  };
+
+  it('should split issues into new, fixed and remaining', () => {
+    const current: ValidationResult = {
+      valid: true,
+      warnings: [
+        {
+          message: 'Missing operationId for GET /pets',
+          rule: 'operation-operationId',
+          pointer: '/paths/~1pets/get',
+          // Lines shift as the file is edited
+          location: { file: 'api.yaml', line: 9, column: 5 },
+        },
+        { message: 'Missing summary/description for GET /pets', rule: 'operation-summary' },
+      ],
+    };
+
+    const { added, fixed, remaining } = diffResults(previous, current);
+
+    expect(added.map(({ issue }) => issue.message)).toEqual([
+      'Missing summary/description for GET /pets',
+    ]);
+    expect(fixed.map(({ severity, issue }) => [severity, issue.message])).toEqual([
+      ['error', 'Failed to resolve $ref pointer: ./pet.yaml'],
+      ['warning', 'Missing API description'],
+    ]);
+    expect(remaining.map(({ issue }) => issue.location?.line)).toEqual([9]);
+  });
+
+  it('should report everything as new on the first run', () => {
+    const { added, fixed, remaining } = diffResults(undefined, previous);
+
+    expect(added).toHaveLength(3);
+    expect(fixed).toHaveLength(0);
+    expect(remaining).toHaveLength(0);
+  });
+});
+
+describe('FileWatcher', () => {
+  const entry = join(TEST_DIR, 'api.yaml');
+  const schema = join(TEST_DIR, 'schemas', 'pet.yaml');
+
+  beforeAll(async () => {
+    await mkdir(join(TEST_DIR, 'schemas'), { recursive: true });
+    await writeFile(entry, 'openapi: 3.0.3\n');
+    await writeFile(schema, 'type: object\n');
+  });
+
+  afterAll(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should call back once for a burst of changes across watched files', async () => {
+    const calls: string[][] = [];
+    let notify: () => void = () => {};
+    const changed = new Promise<void>(done => (notify = done));
+
+    const watcher = new FileWatcher(async files => {
+      calls.push(files);
+      notify();
+      return [entry, schema];
+    }, 50);
+
+    watcher.add([entry, schema]);
+    await writeFile(entry, 'openapi: 3.0.3\ninfo: {}\n');
+    await writeFile(schema, 'type: string\n');
+    await writeFile(entry, 'openapi: 3.0.3\ninfo:\n  title: Pets\n');
+    await writeFile(join(TEST_DIR, 'unrelated.yaml'), 'x: 1\n');
+
+    await changed;
+    // Give a late event the chance to show up as a second call
+    await new Promise(done => setTimeout(done, 150));
+    watcher.close();
+
+    expect(calls).toHaveLength(1);
+    expect([...calls[0]].sort()).toEqual([entry, schema]);
+  });
+
+  it('should report a failed run and keep watching', async () => {
+    const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    const waiting: Array<() => void> = [];
+    const nextRun = () => new Promise<void>(done => waiting.push(done));
+    let calls = 0;
+
+    const watcher = new FileWatcher(async () => {
+      calls++;
+      waiting.shift()?.();
+      if (calls === 1) throw new Error('disk on fire');
+      return [];
+    }, 20);
+
+    watcher.add([entry]);
+    let run = nextRun();
+    await writeFile(entry, 'openapi: 3.0.3\ninfo: {}\n');
+    await run;
+
+    run = nextRun();
+    await new Promise(done => setTimeout(done, 50));
+    await writeFile(entry, 'openapi: 3.0.3\n');
+    await run;
+    watcher.close();
+
+    expect(calls).toBe(2);
+    expect(errorSpy).toHaveBeenCalledWith('Watch run failed: disk on fire');
+    errorSpy.mockRestore();
+  });
+});